@@ -24,7 +24,7 @@ export default {
 		exports: "default",
 		banner,
 	},
-	external: ["obsidian"],
+	external: ["obsidian", "@codemirror/state", "@codemirror/view"],
 	plugins: [
 		replace({
 			preventAssignment: true,
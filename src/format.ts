@@ -0,0 +1,252 @@
+import { TranslationKey, t } from './i18n';
+import { logger } from './logger';
+import { findFrontmatterRange, getFenceMarker } from './scope';
+import { CustomFormatRule, RfrPluginSettings } from './settings';
+
+export type FixStat = { key: string; label: string; count: number };
+
+// A formatting rule edit replaces the lines [fromLine, toLine) with new lines
+export interface FormatEdit {
+	fromLine: number;
+	toLine: number;
+	lines: string[];
+}
+
+export interface FormatRuleContext {
+	// Lines of fenced code blocks and frontmatter are never touched
+	protectedLines: boolean[];
+	settings: RfrPluginSettings;
+}
+
+export interface FormatRule {
+	id: string;
+	name: () => string;
+	description: () => string;
+	enabledByDefault: boolean;
+	check: (lines: string[], context: FormatRuleContext) => FormatEdit[];
+}
+
+const findProtectedLines = (lines: string[]): boolean[] => {
+	const protectedLines = lines.map(() => false);
+	const frontmatter = findFrontmatterRange(lines.join('\n'));
+	let offset = 0;
+	let fenceMarker = '';
+	lines.forEach((line, i) => {
+		const marker = getFenceMarker(line);
+		if (frontmatter && offset < frontmatter.to) {
+			protectedLines[i] = true;
+		} else if (fenceMarker) {
+			protectedLines[i] = true;
+			if (marker === fenceMarker) fenceMarker = '';
+		} else if (marker) {
+			protectedLines[i] = true;
+			fenceMarker = marker;
+		}
+		offset += line.length + 1;
+	});
+	return protectedLines;
+};
+
+// Built-in rules take their name and description from the translation catalog
+const createRule = (rule: Omit<FormatRule, 'name' | 'description'>): FormatRule => ({
+	name: () => t(`rule.${rule.id}` as TranslationKey),
+	description: () => t(`rule.${rule.id}.desc` as TranslationKey),
+	...rule
+});
+
+// Builds a rule that fixes each line on its own
+const createLineRule = (rule: Omit<FormatRule, 'check' | 'name' | 'description'>, fixLine: (line: string, settings: RfrPluginSettings) => string): FormatRule => createRule({
+	...rule,
+	check: (lines, context) => {
+		const edits: FormatEdit[] = [];
+		lines.forEach((line, i) => {
+			if (context.protectedLines[i]) return;
+			const fixed = fixLine(line, context.settings);
+			if (fixed !== line) edits.push({ fromLine: i, toLine: i + 1, lines: [fixed] });
+		});
+		return edits;
+	}
+});
+
+const isHeadingLine = (line: string): boolean => /^ {0,3}#{1,6}(\s|$)/.test(line);
+
+// The character before the opening marker is matched rather than looked behind at, as older
+// versions of Safari on iOS cannot parse lookbehind and would fail to load the plugin
+const normalizeEmphasis = (segment: string, settings: RfrPluginSettings): string => segment
+	.replace(/(^|[^\w\\*_])(\*\*|__)([^\s*_](?:.*?[^\s*_])??)\2(?![\w*_])/g,
+		(_m, before, _marker, inner) => `${before}${settings.strongMarker}${inner}${settings.strongMarker}`)
+	.replace(/(^|[^\w\\*_])([*_])([^\s*_](?:.*?[^\s*_])??)\2(?![\w*_])/g,
+		(_m, before, _marker, inner) => `${before}${settings.emphasisMarker}${inner}${settings.emphasisMarker}`);
+
+// Built-in rules, run in this order
+export const FORMAT_RULES: FormatRule[] = [
+	createLineRule({
+		id: 'heading_duplicate_hashes',
+		enabledByDefault: true
+	}, line => line.replace(/^(\s{0,3})(#{1,6})\s+#{1,6}\s+(.+)$/, (_m, p1, p2, p3) => `${p1}${p2} ${String(p3).trim()}`)),
+	createLineRule({
+		id: 'heading_cap_to_h6',
+		enabledByDefault: true
+	}, line => line.replace(/^(\s*)(#{7,})\s+(\S.*)$/, (_m, p1, _p2, p3) => `${p1}###### ${p3}`)),
+	createLineRule({
+		id: 'heading_space_normalize',
+		enabledByDefault: true
+	}, line => line.replace(/^(\s{0,3})(#{1,6})[ \t]*(\S.*)$/, (_m, p1, p2, p3) => `${p1}${p2} ${p3}`)),
+	createLineRule({
+		id: 'list_bullet_space',
+		enabledByDefault: true
+	}, line => line.replace(/^(\s*)([-+*])[ \t]*(\S)/, (_m, p1, p2, p3) => `${p1}${p2} ${p3}`)),
+	createLineRule({
+		id: 'list_ordered_space',
+		enabledByDefault: true
+	}, line => line.replace(/^(\s*)(\d+\.)[ \t]*(\S)/, (_m, p1, p2, p3) => `${p1}${p2} ${p3}`)),
+	createLineRule({
+		id: 'trim_trailing_whitespace',
+		enabledByDefault: true
+	}, line => (line.endsWith('  ') && !line.endsWith('   ')) ? line : line.replace(/[ \t]+$/, '')),
+	createRule({
+		id: 'heading_blank_lines',
+		enabledByDefault: false,
+		check: (lines, context) => {
+			const edits: FormatEdit[] = [];
+			const isHeading = (i: number) => !context.protectedLines[i] && isHeadingLine(lines[i]);
+			lines.forEach((line, i) => {
+				if (!isHeading(i)) return;
+				// Between two headings the blank line is added once, after the first one
+				const before = i > 0 && lines[i - 1].trim() !== '' && !isHeading(i - 1);
+				const after = i < lines.length - 1 && lines[i + 1].trim() !== '';
+				if (!before && !after) return;
+				edits.push({ fromLine: i, toLine: i + 1, lines: [...(before ? [''] : []), line, ...(after ? [''] : [])] });
+			});
+			return edits;
+		}
+	}),
+	createLineRule({
+		id: 'bullet_marker',
+		enabledByDefault: false
+	}, (line, settings) => {
+		// Thematic breaks such as "* * *" are not list items
+		if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) return line;
+		return line.replace(/^(\s*)[-+*]([ \t]+\S)/, `$1${settings.bulletMarker}$2`);
+	}),
+	createRule({
+		id: 'ordered_list_renumber',
+		enabledByDefault: false,
+		check: (lines, context) => {
+			const edits: FormatEdit[] = [];
+			// Open lists by indentation, innermost last
+			const lists: { indent: number, next: number }[] = [];
+			lines.forEach((line, i) => {
+				if (context.protectedLines[i] || line.trim() === '') return;
+				const indent = line.search(/\S/);
+				const item = line.match(/^(\s*)(\d+)([.)][ \t]+.*)$/);
+				// A less indented line closes nested lists, any other line at the same level closes the list
+				while (lists.length > 0 && (lists[lists.length - 1].indent > indent || (!item && lists[lists.length - 1].indent === indent))) lists.pop();
+				if (!item) return;
+				const list = lists[lists.length - 1];
+				if (!list || list.indent !== indent) {
+					lists.push({ indent, next: parseInt(item[2], 10) + 1 });
+					return;
+				}
+				if (parseInt(item[2], 10) !== list.next) edits.push({ fromLine: i, toLine: i + 1, lines: [`${item[1]}${list.next}${item[3]}`] });
+				list.next++;
+			});
+			return edits;
+		}
+	}),
+	createRule({
+		id: 'collapse_blank_lines',
+		enabledByDefault: false,
+		check: (lines, context) => {
+			const edits: FormatEdit[] = [];
+			let runStart = -1;
+			for (let i = 0; i <= lines.length; i++) {
+				if (i < lines.length && !context.protectedLines[i] && lines[i].trim() === '') {
+					if (runStart === -1) runStart = i;
+					continue;
+				}
+				if (runStart !== -1 && i - runStart > 1) edits.push({ fromLine: runStart, toLine: i, lines: [''] });
+				runStart = -1;
+			}
+			return edits;
+		}
+	}),
+	createLineRule({
+		id: 'emphasis_style',
+		enabledByDefault: false
+	}, (line, settings) => line
+		.split(/(`[^`]*`)/)
+		.map((segment, i) => i % 2 === 1 ? segment : normalizeEmphasis(segment, settings))
+		.join(''))
+];
+
+// Custom rules are regular expressions applied to each line
+const createCustomFormatRule = (custom: CustomFormatRule): FormatRule | null => {
+	let regex: RegExp;
+	try {
+		regex = new RegExp(custom.findText, 'g');
+	} catch (e) {
+		logger(`Custom format rule "${custom.name}" is not a valid regex: ` + e, 0);
+		return null;
+	}
+	return {
+		...createLineRule({
+			id: `custom-${custom.id}`,
+			enabledByDefault: true
+		}, line => custom.findText ? line.replace(regex, custom.replaceText) : line),
+		name: () => custom.name,
+		description: () => custom.findText
+	};
+};
+
+export const isFormatRuleEnabled = (rule: FormatRule, settings: RfrPluginSettings): boolean =>
+	settings.formatRules[rule.id] ?? rule.enabledByDefault;
+
+const getActiveFormatRules = (settings: RfrPluginSettings): FormatRule[] => [
+	...FORMAT_RULES.filter(rule => isFormatRuleEnabled(rule, settings)),
+	...settings.customFormatRules
+		.filter(custom => custom.enabled)
+		.map(createCustomFormatRule)
+		.filter((rule): rule is FormatRule => rule !== null)
+];
+
+const applyFormatEdits = (lines: string[], edits: FormatEdit[]): string[] => {
+	const result = lines.slice();
+	edits
+		.slice()
+		.sort((a, b) => b.fromLine - a.fromLine)
+		.forEach(edit => result.splice(edit.fromLine, edit.toLine - edit.fromLine, ...edit.lines));
+	return result;
+};
+
+export interface FormatIssue {
+	rule: FormatRule;
+	edit: FormatEdit;
+	before: string[];
+}
+
+// Lists what each enabled rule would change in the text as it is, without applying anything
+export const checkMarkdownFormatting = (text: string, settings: RfrPluginSettings): FormatIssue[] => {
+	const lines = text.split('\n');
+	const context = { protectedLines: findProtectedLines(lines), settings };
+	const issues: FormatIssue[] = [];
+	getActiveFormatRules(settings).forEach(rule => {
+		rule.check(lines, context).forEach(edit => {
+			issues.push({ rule, edit, before: lines.slice(edit.fromLine, edit.toLine) });
+		});
+	});
+	return issues.sort((a, b) => a.edit.fromLine - b.edit.fromLine);
+};
+
+// Runs the enabled rules one after the other, each one sees the result of the previous ones
+export const fixMarkdownFormatting = (text: string, settings: RfrPluginSettings): { text: string; stats: FixStat[] } => {
+	const stats: FixStat[] = [];
+	let lines = text.split('\n');
+	getActiveFormatRules(settings).forEach(rule => {
+		const edits = rule.check(lines, { protectedLines: findProtectedLines(lines), settings });
+		if (edits.length === 0) return;
+		lines = applyFormatEdits(lines, edits);
+		stats.push({ key: rule.id, label: rule.name(), count: edits.length });
+	});
+	return { text: lines.join('\n'), stats };
+};
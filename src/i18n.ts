@@ -0,0 +1,886 @@
+import { moment } from 'obsidian';
+
+export type Language = 'en' | 'zh';
+export type LanguageSetting = 'auto' | Language;
+
+const en = {
+	// Commands
+	'command.findReplace': 'Find and Replace using regular expressions',
+	'command.vaultFindReplace': 'Find and Replace in vault files',
+	'command.applySavedPattern': 'Apply saved pattern',
+	'command.checkFormatting': 'Markdown: Check formatting',
+	'command.fixFormatting': 'Markdown: Check and Fix formatting',
+	'command.managePatterns': 'Manage saved patterns',
+	'command.runPatternTests': 'Run pattern tests',
+	'command.renameFiles': 'Rename files and folders using regular expressions',
+	'command.selectAllMatches': 'Select all matches of the last search',
+	'command.openView': 'Open find and replace panel',
+	'command.runPattern': 'Run pattern: {name}',
+	'command.runRecipe': 'Run recipe: {name}',
+
+	// Shared
+	'scope.selection': 'selection',
+	'scope.selections': '{count} selections',
+	'scope.document': 'document',
+	'scope.section': 'section "{heading}"',
+	'scope.block': 'current block',
+	'scope.markers': 'marked text',
+	'notice.nothingToSearch': 'Nothing to search for!',
+	'notice.noMatch': 'No match',
+	'notice.invalidRegex': 'Invalid regular expression',
+	'notice.replacements': 'Made {count} replacement(s) in {scope}',
+	'notice.invalidPattern': '"{name}" is not a valid pattern',
+	'notice.matchTimeout': 'The search took longer than {seconds} s and was stopped. Nested quantifiers such as (a+)+ can make a pattern extremely slow.',
+	'notice.textChanged': 'The note changed while the search was running, nothing was replaced',
+	'notice.invalidProperty': 'The frontmatter property "{property}" is not valid YAML',
+	'notice.invalidPropertyFiles': 'Skipped {count} note(s) where "{property}" is not valid YAML (see console)',
+	'notice.noSection': 'The chosen section is not in this note',
+	'notice.selectedMatches': 'Selected {count} match(es)',
+	'confirm.largeReplace': 'This will replace {count} matches in {scope}.\n\nAre you sure you want to proceed?',
+	'button.cancel': 'Cancel',
+	'button.close': 'Close',
+	'label.find': 'Find:',
+	'label.replace': 'Replace:',
+	'label.saved': 'Saved:',
+	'placeholder.find': 'e.g. (.*)',
+	'placeholder.replace': 'e.g. $1',
+	'placeholder.selectPattern': 'Select a saved pattern...',
+	'toggle.useRegex': 'Use regular expressions',
+	'toggle.useRegexTooltip': 'If enabled, regular expressions in the find field are processed as such, and regex groups might be addressed in the replace field',
+
+	// Recipes
+	'recipe.defaultName': 'New recipe',
+	'recipe.stopped': 'Recipe "{recipe}" stopped: "{pattern}" is not a valid pattern',
+	'recipe.markdownFixes': 'Markdown fixes: {count}',
+	'recipe.report': 'Recipe "{name}" · {report}',
+	'recipe.noSteps': 'no steps',
+	'recipe.missingPattern': 'missing pattern skipped',
+
+	// Match preview
+	'preview.line': 'Line {line}',
+	'preview.selectionNumber': 'Selection {number}',
+	'preview.skipped': 'Line {line} · skipped ({reason})',
+	'preview.multiLine': '(multi-line match)',
+	'preview.enterSearch': 'Preview: Enter search text',
+	'preview.noMatches': 'Preview: No matches found',
+	'preview.noSection': 'Preview: The chosen section is not in this note',
+	'preview.searching': 'Preview: Searching...',
+	'preview.timeout': 'Preview: The search took longer than {seconds} s and was stopped',
+	'preview.matchOne': 'Preview: {count} match in {scope}',
+	'preview.matchMany': 'Preview: {count} matches in {scope}',
+	'preview.selected': ' ({count} selected)',
+	'preview.skippedCount': ' · {count} skipped',
+	'preview.incomplete': ' · stopped early, run the search again to replace',
+	'preview.selectAll': 'Select all',
+	'preview.selectNone': 'Select none',
+	'preview.showMore': 'Show {count} more...',
+	'preview.moreMatches': '({count} more matches)',
+	'preview.enterProperty': 'Preview: Enter the name of a frontmatter property',
+	'preview.noProperty': 'Preview: The note has no "{property}" property',
+	'preview.invalidProperty': 'Preview: The "{property}" property is not valid YAML',
+	'preview.propertyChanges': 'Preview: {count} value(s) of "{property}" change',
+	'preview.propertyRemoved': '(removed)',
+	'groups.title': 'Capture groups ({count})',
+	'groups.pattern': 'Pattern',
+	'groups.line': 'Line',
+	'groups.notParticipating': 'did not participate',
+	'groups.position': 'characters {from}–{to}',
+
+	// Find and replace modal
+	'modal.title': 'Regex Find/Replace v{version}',
+	'modal.flagGlobal': 'Global (always on)',
+	'modal.flagMultiline': 'Multiline: ^ and $ match line boundaries',
+	'modal.flagCaseInsensitive': 'Case insensitive',
+	'modal.selectionOnly': 'Replace only in selection',
+	'modal.selectionOnlyTooltip': 'If enabled, replaces only occurances in the currently selected text',
+	'modal.replaceAll': 'Replace All',
+	'modal.findNext': 'Find Next',
+	'modal.replaceOne': 'Replace',
+	'modal.skip': 'Skip',
+	'modal.replaceRemaining': 'Replace Remaining',
+	'modal.selectAll': 'Select All Matches',
+	'modal.selectAllTooltip': 'Select every match in the editor, or the chosen capture group of every match, to edit them all at once',
+	'modal.selectWholeMatch': 'Whole match',
+	'modal.invalidPattern': 'Invalid pattern',
+	'modal.noMoreMatches': 'No more matches',
+	'modal.noMatches': 'No matches',
+	'modal.stepCounter': '{current} of {total}',
+
+	// Find and replace panel
+	'view.title': 'Regex Find/Replace',
+	'view.note': 'In: {name}',
+	'view.noNote': 'Open a note to search it',
+
+	// Regex validation
+	'regex.errorAt': '{message} (at character {position})',
+	'regex.trailingBackslash': 'Pattern ends with a lone backslash',
+	'regex.unterminatedClass': 'Character class is missing its closing ]',
+	'regex.rangeOutOfOrder': 'Range out of order in character class',
+	'regex.unterminatedGroup': 'Group is missing its closing )',
+	'regex.unmatchedParen': 'Unmatched )',
+	'regex.nothingToRepeat': 'Nothing to repeat before this quantifier',
+	'regex.quantifierOutOfOrder': 'Numbers out of order in {} quantifier',
+	'regex.invalidGroup': 'Invalid group',
+	'regex.invalidGroupName': 'Invalid capture group name',
+	'regex.duplicateGroupName': 'Duplicate capture group name',
+	'regex.warnNoGroups': '{reference} is used in the replacement, but the pattern has no capture groups',
+	'regex.warnMissingGroup': '{reference} is used in the replacement, but the pattern has only {count} capture group(s)',
+	'regex.warnUnknownName': '{reference} is used in the replacement, but the pattern has no group with that name',
+	'regex.warnEmptyMatch': 'The pattern can match empty text, which inserts the replacement between characters',
+	'regex.warnRegexOff': '"{syntax}" looks like regex syntax, but "Use regular expressions" is off',
+	'preview.invalidRegex': 'Preview: Invalid regular expression',
+
+	// Regex explainer
+	'explain.title': 'What the pattern matches',
+	'explain.text': '"{text}"',
+	'explain.any': 'any character',
+	'explain.anyPlural': 'characters',
+	'explain.digit': 'a digit',
+	'explain.digitPlural': 'digits',
+	'explain.nonDigit': 'a character that is not a digit',
+	'explain.nonDigitPlural': 'characters that are not digits',
+	'explain.word': 'a letter, digit or underscore',
+	'explain.wordPlural': 'letters, digits or underscores',
+	'explain.nonWord': 'a character that is not a letter, digit or underscore',
+	'explain.nonWordPlural': 'characters that are not letters, digits or underscores',
+	'explain.whitespace': 'a whitespace character',
+	'explain.whitespacePlural': 'whitespace characters',
+	'explain.nonWhitespace': 'a character that is not whitespace',
+	'explain.nonWhitespacePlural': 'characters that are not whitespace',
+	'explain.lineBreak': 'a line break',
+	'explain.lineBreakPlural': 'line breaks',
+	'explain.tab': 'a tab',
+	'explain.tabPlural': 'tabs',
+	'explain.inClass': 'one of the characters [{set}]',
+	'explain.inClassPlural': 'characters from [{set}]',
+	'explain.notInClass': 'any character except [{set}]',
+	'explain.notInClassPlural': 'characters other than [{set}]',
+	'explain.lineStart': 'start of a line',
+	'explain.lineEnd': 'end of a line',
+	'explain.textStart': 'start of the text',
+	'explain.textEnd': 'end of the text',
+	'explain.wordBoundary': 'start or end of a word',
+	'explain.notWordBoundary': 'not at the start or end of a word',
+	'explain.backreference': 'the same text as group {group}',
+	'explain.or': 'or',
+	'explain.empty': 'nothing',
+	'explain.group': 'group {group}',
+	'explain.namedGroup': 'group {group} ({name})',
+	'explain.nonCaptureGroup': 'group (not captured)',
+	'explain.lookahead': 'followed by',
+	'explain.negativeLookahead': 'not followed by',
+	'explain.lookbehind': 'preceded by',
+	'explain.negativeLookbehind': 'not preceded by',
+	'explain.zeroOrMore': 'zero or more {item}',
+	'explain.oneOrMore': 'one or more {item}',
+	'explain.optional': 'optionally {item}',
+	'explain.exactly': 'exactly {count} {item}',
+	'explain.atLeast': '{min} or more {item}',
+	'explain.between': 'between {min} and {max} {item}',
+	'explain.lazy': '{text}, as few as possible',
+	'explain.repeatAny': 'repeated any number of times',
+	'explain.repeatOneOrMore': 'repeated one or more times',
+	'explain.repeatOptional': 'optional',
+	'explain.repeatExactly': 'repeated exactly {count} times',
+	'explain.repeatAtLeast': 'repeated {min} or more times',
+	'explain.repeatBetween': 'repeated {min} to {max} times',
+
+	// Markdown scope
+	'scope.title': 'Markdown scope',
+	'scope.titleActive': 'Markdown scope ({count} active)',
+	'scope.skipCodeBlocks': 'Skip fenced code blocks',
+	'scope.skipCodeBlocksTooltip': 'Leave everything between ``` or ~~~ fences untouched',
+	'scope.skipInlineCode': 'Skip inline code',
+	'scope.skipInlineCodeTooltip': 'Leave text between backticks untouched',
+	'scope.skipFrontmatter': 'Skip frontmatter',
+	'scope.skipFrontmatterTooltip': 'Leave the YAML frontmatter at the top of the note untouched',
+	'scope.skipLinkTargets': 'Skip link targets',
+	'scope.skipLinkTargetsTooltip': 'Leave the targets of wikilinks, embeds, Markdown links and URLs untouched (link aliases are still replaced)',
+	'scope.skipHtmlComments': 'Skip HTML comments',
+	'scope.skipHtmlCommentsTooltip': 'Leave <!-- comments --> untouched',
+	'scope.onlyMatchIn': 'Only match in',
+	'scope.all': 'Whole text',
+	'scope.headings': 'Headings',
+	'scope.frontmatter': 'Frontmatter',
+	'scope.property': 'Frontmatter property',
+	'scope.propertyName': 'Property:',
+	'scope.propertyPlaceholder': 'e.g. tags, aliases or status',
+	'scope.inProperty': 'property "{property}"',
+	'reason.frontmatter': 'frontmatter',
+	'reason.codeBlock': 'code block',
+	'reason.inlineCode': 'inline code',
+	'reason.linkTarget': 'link target',
+	'reason.htmlComment': 'HTML comment',
+	'reason.outsideHeadings': 'outside headings',
+	'reason.outsideFrontmatter': 'outside frontmatter',
+	'reason.outsideProperty': 'outside the "{property}" property',
+
+	// Section scope
+	'section.searchIn': 'Search in',
+	'section.document': 'Whole note',
+	'section.section': 'Section at cursor',
+	'section.sectionOnly': 'Section at cursor, without subheadings',
+	'section.block': 'Paragraph or list at cursor',
+	'section.heading': 'Section under heading...',
+	'section.markers': 'Between marker lines...',
+	'section.headingLabel': 'Heading',
+	'section.noHeadings': '(no headings)',
+	'section.startMarker': 'Start:',
+	'section.startMarkerPlaceholder': 'e.g. %% start %%',
+	'section.endMarker': 'End:',
+	'section.endMarkerPlaceholder': 'e.g. %% end %%',
+
+	// Saved pattern picker
+	'picker.selection': 'Apply a saved pattern to the selection...',
+	'picker.document': 'Apply a saved pattern to the document...',
+	'picker.empty': 'No saved patterns found',
+
+	// Pattern manager
+	'manager.title': 'Saved patterns',
+	'manager.search': 'Search name, description, text or tags...',
+	'manager.allTags': 'All tags',
+	'manager.noResults': 'No pattern matches the search',
+	'manager.selectPattern': 'Select a pattern to edit it',
+	'manager.name': 'Name',
+	'manager.description': 'Description',
+	'manager.tags': 'Tags',
+	'manager.tagsDesc': 'Comma separated, e.g. cleanup, dates',
+	'manager.usage': 'Used {count} time(s)',
+	'manager.duplicate': 'Duplicate',
+	'manager.copyName': '{name} (copy)',
+
+	// Pattern tests
+	'tests.title': 'Tests',
+	'tests.desc': 'Sample inputs with the output the pattern should produce. They run on every change to the pattern.',
+	'tests.add': 'Add test',
+	'tests.testNumber': 'Test {number}',
+	'tests.input': 'Input',
+	'tests.expected': 'Expected output',
+	'tests.passed': 'Passed',
+	'tests.failed': 'Failed (− expected, + actual)',
+	'tests.failedCount': '{count} failing',
+	'tests.error': 'Error: {message}',
+	'tests.timeout': 'the search took longer than {seconds} s',
+	'tests.running': 'Running pattern tests...',
+	'tests.summary': '{passed} of {total} passed',
+	'tests.edit': 'Edit',
+	'tests.reportTitle': 'Pattern tests: {passed} passed, {failed} failed',
+	'tests.noTests': 'No saved pattern has tests yet. Add them in the pattern manager.',
+
+	// Vault modal
+	'vault.title': 'Regex Find/Replace in Vault',
+	'vault.files': 'Files:',
+	'vault.folder': 'Folder',
+	'vault.glob': 'Glob',
+	'vault.tag': 'Tag',
+	'vault.folderPlaceholder': 'e.g. Projects/2023 (empty = whole vault)',
+	'vault.globPlaceholder': 'e.g. Meetings/**/*.md',
+	'vault.tagPlaceholder': 'e.g. #project',
+	'vault.pressSearch': 'Preview: Enter search text and press Search',
+	'vault.pressSearchToUpdate': 'Preview: Press Search to update',
+	'vault.search': 'Search',
+	'vault.replaceInFiles': 'Replace in {count} file(s)',
+	'vault.matchesInFiles': 'Preview: {count} match(es) in {files} file(s)',
+	'vault.fileMatches': '({count} match(es))',
+	'vault.searching': 'Searching {count} file(s)...',
+	'vault.inFiles': '{count} file(s)',
+	'vault.timedOutFiles': 'The search took longer than {seconds} s in {count} file(s), they were not changed',
+	'vault.property': 'Property:',
+	'vault.propertyPlaceholder': 'e.g. tags (empty = whole note)',
+	'vault.propertyChangesInFiles': 'Preview: {count} value(s) of "{property}" in {files} file(s)',
+
+	'rename.title': 'Regex Rename Files',
+	'rename.target': 'Rename:',
+	'rename.notes': 'Notes',
+	'rename.files': 'All files',
+	'rename.folders': 'Folders',
+	'rename.inFolder': 'In folder:',
+	'rename.hint': 'The pattern is applied to names without their extension. Links are updated when "Automatically update internal links" is on.',
+	'rename.pressPreview': 'Preview: Enter search text and press Preview',
+	'rename.pressPreviewToUpdate': 'Preview: Press Preview to update',
+	'rename.preview': 'Preview',
+	'rename.searching': 'Matching {count} name(s)...',
+	'rename.noChanges': 'Preview: No names change',
+	'rename.count': 'Preview: {count} rename(s)',
+	'rename.conflicts': ', {count} conflict(s)',
+	'rename.renameItems': 'Rename {count} item(s)',
+	'rename.emptyName': 'The new name is empty',
+	'rename.invalidName': 'The new name contains one of \\ / : * ? " < > |',
+	'rename.exists': 'A file or folder with this path already exists',
+	'rename.duplicate': 'Also the new path of {path}',
+	'rename.confirm': 'This will rename {count} items.\n\nAre you sure you want to proceed?',
+	'rename.done': 'Renamed {count} item(s)',
+	'rename.failed': ', {count} failed (see console)',
+
+	// Formatting
+	'format.applied': 'Markdown formatting fixes applied',
+	'format.noIssues': 'No Markdown formatting issues found',
+	'format.issues': 'Markdown formatting: {count} issue(s)',
+	'format.noIssuesTitle': 'Markdown formatting: no issues found',
+	'format.goToLine': 'Go to line',
+	'format.fix': 'Fix',
+	'format.fixAll': 'Fix all',
+	'format.blankLine': '(blank line)',
+	'rule.heading_duplicate_hashes': 'Duplicate heading hashes',
+	'rule.heading_duplicate_hashes.desc': 'Turns "## ## Title" into "## Title"',
+	'rule.heading_cap_to_h6': 'Heading level above H6',
+	'rule.heading_cap_to_h6.desc': 'Caps headings with more than six hashes to H6',
+	'rule.heading_space_normalize': 'Space after heading hashes',
+	'rule.heading_space_normalize.desc': 'Puts exactly one space between the hashes and the heading text',
+	'rule.list_bullet_space': 'Space after bullet',
+	'rule.list_bullet_space.desc': 'Puts exactly one space after "-", "+" and "*" list markers',
+	'rule.list_ordered_space': 'Space after number',
+	'rule.list_ordered_space.desc': 'Puts exactly one space after "1." list markers',
+	'rule.trim_trailing_whitespace': 'Trailing whitespace',
+	'rule.trim_trailing_whitespace.desc': 'Removes whitespace at the end of lines, keeping two-space line breaks',
+	'rule.heading_blank_lines': 'Blank lines around headings',
+	'rule.heading_blank_lines.desc': 'Surrounds every heading with blank lines',
+	'rule.bullet_marker': 'Consistent bullet marker',
+	'rule.bullet_marker.desc': 'Uses the bullet marker chosen below for every unordered list item',
+	'rule.ordered_list_renumber': 'Renumber ordered lists',
+	'rule.ordered_list_renumber.desc': 'Numbers the items of each ordered list consecutively from its first number',
+	'rule.collapse_blank_lines': 'Multiple blank lines',
+	'rule.collapse_blank_lines.desc': 'Collapses runs of blank lines into a single one',
+	'rule.emphasis_style': 'Emphasis markers',
+	'rule.emphasis_style.desc': 'Uses the emphasis and strong markers chosen below, inline code is left alone',
+
+	// Pattern library
+	'library.invalid': 'Not a valid pattern library: expected JSON or YAML with a list of patterns',
+	'library.writeFailed': 'Could not write the pattern library to "{path}"',
+	'library.readFailed': 'Could not load the pattern library from "{path}", it is not valid JSON or YAML',
+	'library.unsupportedFile': 'The library file has to end in .md, .yaml, .yml or .json',
+	'library.exportTitle': 'Export saved patterns',
+	'library.importTitle': 'Import patterns',
+	'library.format': 'Format:',
+	'library.copy': 'Copy to clipboard',
+	'library.copied': 'Copied {count} pattern(s) to the clipboard',
+	'library.importPlaceholder': 'Paste exported patterns (JSON or YAML)',
+	'library.summary': '{count} pattern(s): {added} new, {duplicates} already saved',
+	'library.merge': 'Merge',
+	'library.mergeTooltip': 'Add the new patterns, keep the saved ones',
+	'library.replace': 'Replace library',
+	'library.replaceTooltip': 'Remove all saved patterns and use the imported ones',
+	'library.confirmReplace': 'This will remove all {count} saved patterns.\n\nAre you sure you want to proceed?',
+	'library.imported': 'Imported {added} pattern(s), skipped {skipped} duplicate(s)',
+
+	// Settings
+	'settings.language': 'Language',
+	'settings.languageDesc': 'Language of the plugin. Commands are renamed after Obsidian is restarted.',
+	'settings.languageAuto': 'Same as Obsidian',
+	'settings.regexHeading': 'Regular Expression Settings',
+	'settings.caseInsensitive': 'Case Insensitive',
+	'settings.caseInsensitiveDesc': 'Apply the /i modifier for case insensitive search',
+	'settings.multiline': 'Multiline Mode',
+	'settings.multilineDesc': 'Apply the /m modifier (^ and $ match line start/end instead of string start/end)',
+	'settings.generalHeading': 'General Settings',
+	'settings.processLineBreak': 'Process \\n as line break',
+	'settings.processLineBreakDesc': 'When \'\\n\' is used in the find or replace field, it will be treated as a line break. This allows searching for and replacing text across multiple lines.',
+	'settings.processTab': 'Process \\t as tab',
+	'settings.processTabDesc': 'When \'\\t\' is used in the find or replace field, it will be treated as a tab character. This allows searching for and replacing tabs.',
+	'settings.prefillFind': 'Prefill Find Field',
+	'settings.prefillFindDesc': 'Copy the currently selected text (if any) into the \'Find\' text field. This setting is only applied if the selection does not contain linebreaks',
+	'settings.previewHeading': 'Preview & Safety',
+	'settings.showPreview': 'Show Preview',
+	'settings.showPreviewDesc': 'Display a live preview of matches and replacements before performing the operation',
+	'settings.previewLimit': 'Preview Limit',
+	'settings.previewLimitDesc': 'Maximum number of matches to show in the preview',
+	'settings.matchTimeout': 'Search Timeout',
+	'settings.matchTimeoutDesc': 'Seconds a regex search may take before it is stopped, to protect against patterns that would freeze Obsidian',
+	'settings.confirmLarge': 'Confirm Large Replacements',
+	'settings.confirmLargeDesc': 'Show a confirmation dialog when replacing many matches',
+	'settings.largeThreshold': 'Large Replacement Threshold',
+	'settings.largeThresholdDesc': 'Number of matches that triggers the confirmation dialog',
+	'settings.patternsHeading': 'Saved Patterns',
+	'settings.pinnedCommands': 'Commands for Pinned Patterns',
+	'settings.pinnedCommandsDesc': 'Offer every pinned pattern as a "Run pattern" command, so it can be bound to a hotkey. Newly pinned patterns show up right away, renamed ones after a restart.',
+	'settings.managePatterns': 'Pattern Library',
+	'settings.managePatternsDesc': '{count} saved pattern(s), {pinned} pinned',
+	'settings.openManager': 'Manage patterns',
+	'settings.maxHistory': 'Max History Size',
+	'settings.maxHistoryDesc': 'Maximum number of unpinned patterns to keep in history (pinned patterns are never removed)',
+	'settings.patternDesc': 'Find: {find} | Replace: {replace}',
+	'settings.pin': 'Pin',
+	'settings.unpin': 'Unpin',
+	'settings.delete': 'Delete',
+	'settings.clearPatterns': 'Clear All Patterns',
+	'settings.clearPatternsDesc': 'Remove all saved patterns from history',
+	'settings.clearAll': 'Clear All',
+	'settings.noPatterns': 'No saved patterns yet. Patterns will be automatically saved when you perform replacements.',
+	'settings.transfer': 'Import and Export',
+	'settings.transferDesc': 'Share saved patterns as JSON or YAML. Patterns that are already saved are detected on import.',
+	'settings.import': 'Import',
+	'settings.export': 'Export',
+	'settings.libraryFile': 'Library File',
+	'settings.libraryFileDesc': 'Keep the saved patterns in a note (.md) or a .yaml/.json file in the vault, so they sync and can be reviewed like any other file. An existing file is loaded and wins over the patterns saved in the plugin. Leave empty to turn off.',
+	'settings.recipesHeading': 'Recipes',
+	'settings.recipesDesc': 'A recipe runs several saved patterns in a row as a single edit. Each recipe is available as a command, so it can be bound to a hotkey. A renamed recipe shows its new name in the command palette after Obsidian is restarted.',
+	'settings.name': 'Name',
+	'settings.steps': '{count} step(s)',
+	'settings.deleteRecipe': 'Delete recipe',
+	'settings.missingPattern': '(missing pattern)',
+	'settings.missingPatternDesc': 'This pattern has been deleted and will be skipped',
+	'settings.moveUp': 'Move up',
+	'settings.moveDown': 'Move down',
+	'settings.removeStep': 'Remove step',
+	'settings.addStep': 'Add step',
+	'settings.addStepDesc': 'Patterns used in a recipe are never removed from the history',
+	'settings.recipeFix': 'Fix Markdown formatting',
+	'settings.recipeFixDesc': 'Run "Markdown: Check and Fix formatting" after the last step',
+	'settings.addRecipe': 'Add Recipe',
+	'settings.formatHeading': 'Markdown Formatting Rules',
+	'settings.formatDesc': 'Rules applied by "Markdown: Check and Fix formatting" and by recipes. Code blocks and frontmatter are never changed.',
+	'settings.bulletMarker': 'Bullet Marker',
+	'settings.bulletMarkerDesc': 'Marker used by "Consistent bullet marker"',
+	'settings.emphasisMarkers': 'Emphasis Markers',
+	'settings.emphasisMarkersDesc': 'Markers used by "Emphasis markers" for emphasis and strong text',
+	'settings.customHeading': 'Custom Formatting Rules',
+	'settings.customDesc': 'Custom rules replace a regular expression on every line, after the built-in rules. Replacements use JavaScript syntax ($1, $&).',
+	'settings.enabled': 'Enabled',
+	'settings.deleteRule': 'Delete rule',
+	'settings.find': 'Find',
+	'settings.replace': 'Replace',
+	'settings.addCustomRule': 'Add Custom Rule',
+	'settings.customRuleName': 'Rule {count}'
+};
+
+export type TranslationKey = keyof typeof en;
+
+const zh: Record<TranslationKey, string> = {
+	'command.findReplace': '使用正则表达式查找和替换',
+	'command.vaultFindReplace': '在库文件中查找和替换',
+	'command.applySavedPattern': '应用已保存的模式',
+	'command.checkFormatting': 'Markdown：检查格式',
+	'command.fixFormatting': 'Markdown：检查并修复格式',
+	'command.managePatterns': '管理已保存的模式',
+	'command.runPatternTests': '运行模式测试',
+	'command.renameFiles': '使用正则表达式重命名文件和文件夹',
+	'command.selectAllMatches': '选中上次查找的所有匹配',
+	'command.openView': '打开查找和替换面板',
+	'command.runPattern': '运行模式：{name}',
+	'command.runRecipe': '运行配方：{name}',
+
+	'scope.selection': '选区',
+	'scope.selections': '{count} 个选区',
+	'scope.document': '文档',
+	'scope.section': '“{heading}”章节',
+	'scope.block': '当前段落',
+	'scope.markers': '标记之间的文本',
+	'notice.nothingToSearch': '没有要查找的内容！',
+	'notice.noMatch': '没有匹配',
+	'notice.invalidRegex': '无效的正则表达式',
+	'notice.replacements': '在{scope}中进行了 {count} 处替换',
+	'notice.invalidPattern': '“{name}”不是有效的模式',
+	'notice.matchTimeout': '查找超过 {seconds} 秒，已停止。(a+)+ 这类嵌套量词会让模式变得极慢。',
+	'notice.textChanged': '查找期间笔记已被修改，未进行替换',
+	'notice.invalidProperty': 'Frontmatter 属性“{property}”不是有效的 YAML',
+	'notice.invalidPropertyFiles': '已跳过 {count} 篇“{property}”不是有效 YAML 的笔记（见控制台）',
+	'notice.noSection': '此笔记中没有所选的范围',
+	'notice.selectedMatches': '已选中 {count} 处匹配',
+	'confirm.largeReplace': '将在{scope}中替换 {count} 处匹配。\n\n确定要继续吗？',
+	'button.cancel': '取消',
+	'button.close': '关闭',
+	'label.find': '查找：',
+	'label.replace': '替换：',
+	'label.saved': '已保存：',
+	'placeholder.find': '例如 (.*)',
+	'placeholder.replace': '例如 $1',
+	'placeholder.selectPattern': '选择已保存的模式...',
+	'toggle.useRegex': '使用正则表达式',
+	'toggle.useRegexTooltip': '启用后，查找内容按正则表达式处理，替换内容中可以引用捕获组',
+
+	'recipe.defaultName': '新配方',
+	'recipe.stopped': '配方“{recipe}”已停止：“{pattern}”不是有效的模式',
+	'recipe.markdownFixes': 'Markdown 修复：{count}',
+	'recipe.report': '配方“{name}” · {report}',
+	'recipe.noSteps': '没有步骤',
+	'recipe.missingPattern': '已跳过缺失的模式',
+
+	'preview.line': '第 {line} 行',
+	'preview.selectionNumber': '选区 {number}',
+	'preview.skipped': '第 {line} 行 · 已跳过（{reason}）',
+	'preview.multiLine': '(跨行匹配)',
+	'preview.enterSearch': '预览：请输入查找内容',
+	'preview.noMatches': '预览：未找到匹配',
+	'preview.noSection': '预览：此笔记中没有所选的范围',
+	'preview.searching': '预览：正在查找...',
+	'preview.timeout': '预览：查找超过 {seconds} 秒，已停止',
+	'preview.matchOne': '预览：{scope}中有 {count} 处匹配',
+	'preview.matchMany': '预览：{scope}中有 {count} 处匹配',
+	'preview.selected': '（已选 {count} 处）',
+	'preview.skippedCount': ' · 跳过 {count} 处',
+	'preview.incomplete': ' · 已提前停止，请重新查找后再替换',
+	'preview.selectAll': '全选',
+	'preview.selectNone': '全不选',
+	'preview.showMore': '再显示 {count} 处...',
+	'preview.moreMatches': '（还有 {count} 处匹配）',
+	'preview.enterProperty': '预览：请输入 Frontmatter 属性名',
+	'preview.noProperty': '预览：笔记没有“{property}”属性',
+	'preview.invalidProperty': '预览：“{property}”属性不是有效的 YAML',
+	'preview.propertyChanges': '预览：“{property}”有 {count} 个值改变',
+	'preview.propertyRemoved': '(已移除)',
+	'groups.title': '捕获组（{count}）',
+	'groups.pattern': '模式',
+	'groups.line': '行',
+	'groups.notParticipating': '未参与匹配',
+	'groups.position': '第 {from}–{to} 个字符',
+
+	'modal.title': '正则查找/替换 v{version}',
+	'modal.flagGlobal': '全局（始终开启）',
+	'modal.flagMultiline': '多行：^ 和 $ 匹配行首和行尾',
+	'modal.flagCaseInsensitive': '忽略大小写',
+	'modal.selectionOnly': '仅在选区中替换',
+	'modal.selectionOnlyTooltip': '启用后，只替换当前选中文本中的匹配',
+	'modal.replaceAll': '全部替换',
+	'modal.findNext': '查找下一个',
+	'modal.replaceOne': '替换',
+	'modal.skip': '跳过',
+	'modal.replaceRemaining': '替换其余',
+	'modal.selectAll': '选择所有匹配',
+	'modal.selectAllTooltip': '在编辑器中选中每处匹配或每处匹配的所选捕获组，以便同时编辑',
+	'modal.selectWholeMatch': '整个匹配',
+	'modal.invalidPattern': '无效的模式',
+	'modal.noMoreMatches': '没有更多匹配',
+	'modal.noMatches': '没有匹配',
+	'modal.stepCounter': '{current} / {total}',
+
+	'view.title': '正则查找/替换',
+	'view.note': '当前笔记：{name}',
+	'view.noNote': '打开一篇笔记以进行查找',
+
+	'regex.errorAt': '{message}（位于第 {position} 个字符）',
+	'regex.trailingBackslash': '模式以单独的反斜杠结尾',
+	'regex.unterminatedClass': '字符类缺少结尾的 ]',
+	'regex.rangeOutOfOrder': '字符类中的范围顺序颠倒',
+	'regex.unterminatedGroup': '分组缺少结尾的 )',
+	'regex.unmatchedParen': '多余的 )',
+	'regex.nothingToRepeat': '量词前没有可重复的内容',
+	'regex.quantifierOutOfOrder': '{} 量词中的数字顺序颠倒',
+	'regex.invalidGroup': '无效的分组',
+	'regex.invalidGroupName': '无效的捕获组名称',
+	'regex.duplicateGroupName': '重复的捕获组名称',
+	'regex.warnNoGroups': '替换内容使用了 {reference}，但模式中没有捕获组',
+	'regex.warnMissingGroup': '替换内容使用了 {reference}，但模式中只有 {count} 个捕获组',
+	'regex.warnUnknownName': '替换内容使用了 {reference}，但模式中没有该名称的分组',
+	'regex.warnEmptyMatch': '该模式可以匹配空文本，会在字符之间插入替换内容',
+	'regex.warnRegexOff': '“{syntax}”看起来像正则语法，但“使用正则表达式”未开启',
+	'preview.invalidRegex': '预览：无效的正则表达式',
+
+	'explain.title': '该模式匹配的内容',
+	'explain.text': '“{text}”',
+	'explain.any': '任意字符',
+	'explain.anyPlural': '字符',
+	'explain.digit': '数字',
+	'explain.digitPlural': '数字',
+	'explain.nonDigit': '非数字字符',
+	'explain.nonDigitPlural': '非数字字符',
+	'explain.word': '字母、数字或下划线',
+	'explain.wordPlural': '字母、数字或下划线',
+	'explain.nonWord': '字母、数字和下划线以外的字符',
+	'explain.nonWordPlural': '字母、数字和下划线以外的字符',
+	'explain.whitespace': '空白字符',
+	'explain.whitespacePlural': '空白字符',
+	'explain.nonWhitespace': '非空白字符',
+	'explain.nonWhitespacePlural': '非空白字符',
+	'explain.lineBreak': '换行',
+	'explain.lineBreakPlural': '换行',
+	'explain.tab': '制表符',
+	'explain.tabPlural': '制表符',
+	'explain.inClass': '[{set}] 中的字符',
+	'explain.inClassPlural': '[{set}] 中的字符',
+	'explain.notInClass': '[{set}] 以外的字符',
+	'explain.notInClassPlural': '[{set}] 以外的字符',
+	'explain.lineStart': '行首',
+	'explain.lineEnd': '行尾',
+	'explain.textStart': '文本开头',
+	'explain.textEnd': '文本结尾',
+	'explain.wordBoundary': '单词的开头或结尾',
+	'explain.notWordBoundary': '不在单词的开头或结尾',
+	'explain.backreference': '与第 {group} 组相同的文本',
+	'explain.or': '或',
+	'explain.empty': '空',
+	'explain.group': '第 {group} 组',
+	'explain.namedGroup': '第 {group} 组（{name}）',
+	'explain.nonCaptureGroup': '分组（不捕获）',
+	'explain.lookahead': '后面紧跟',
+	'explain.negativeLookahead': '后面不是',
+	'explain.lookbehind': '前面紧接',
+	'explain.negativeLookbehind': '前面不是',
+	'explain.zeroOrMore': '零个或多个{item}',
+	'explain.oneOrMore': '一个或多个{item}',
+	'explain.optional': '可选的{item}',
+	'explain.exactly': '正好 {count} 个{item}',
+	'explain.atLeast': '{min} 个或更多{item}',
+	'explain.between': '{min} 到 {max} 个{item}',
+	'explain.lazy': '{text}，尽可能少',
+	'explain.repeatAny': '重复任意次',
+	'explain.repeatOneOrMore': '重复一次或多次',
+	'explain.repeatOptional': '可选',
+	'explain.repeatExactly': '重复 {count} 次',
+	'explain.repeatAtLeast': '重复 {min} 次或更多',
+	'explain.repeatBetween': '重复 {min} 到 {max} 次',
+
+	'scope.title': 'Markdown 范围',
+	'scope.titleActive': 'Markdown 范围（已启用 {count} 项）',
+	'scope.skipCodeBlocks': '跳过代码块',
+	'scope.skipCodeBlocksTooltip': '不修改 ``` 或 ~~~ 围栏之间的内容',
+	'scope.skipInlineCode': '跳过行内代码',
+	'scope.skipInlineCodeTooltip': '不修改反引号之间的文本',
+	'scope.skipFrontmatter': '跳过 Frontmatter',
+	'scope.skipFrontmatterTooltip': '不修改笔记开头的 YAML Frontmatter',
+	'scope.skipLinkTargets': '跳过链接目标',
+	'scope.skipLinkTargetsTooltip': '不修改双链、嵌入、Markdown 链接和网址的目标（链接别名仍会被替换）',
+	'scope.skipHtmlComments': '跳过 HTML 注释',
+	'scope.skipHtmlCommentsTooltip': '不修改 <!-- 注释 -->',
+	'scope.onlyMatchIn': '仅匹配',
+	'scope.all': '全部文本',
+	'scope.headings': '标题',
+	'scope.frontmatter': 'Frontmatter',
+	'scope.property': 'Frontmatter 属性',
+	'scope.propertyName': '属性：',
+	'scope.propertyPlaceholder': '例如 tags、aliases 或 status',
+	'scope.inProperty': '属性“{property}”',
+	'reason.frontmatter': 'Frontmatter',
+	'reason.codeBlock': '代码块',
+	'reason.inlineCode': '行内代码',
+	'reason.linkTarget': '链接目标',
+	'reason.htmlComment': 'HTML 注释',
+	'reason.outsideHeadings': '不在标题中',
+	'reason.outsideFrontmatter': '不在 Frontmatter 中',
+	'reason.outsideProperty': '不在“{property}”属性中',
+
+	'section.searchIn': '查找范围',
+	'section.document': '整篇笔记',
+	'section.section': '光标所在章节',
+	'section.sectionOnly': '光标所在章节（不含子标题）',
+	'section.block': '光标所在段落或列表',
+	'section.heading': '指定标题下的章节...',
+	'section.markers': '标记行之间...',
+	'section.headingLabel': '标题',
+	'section.noHeadings': '(没有标题)',
+	'section.startMarker': '开始：',
+	'section.startMarkerPlaceholder': '例如 %% start %%',
+	'section.endMarker': '结束：',
+	'section.endMarkerPlaceholder': '例如 %% end %%',
+
+	'picker.selection': '将已保存的模式应用到选区...',
+	'picker.document': '将已保存的模式应用到文档...',
+	'picker.empty': '没有已保存的模式',
+
+	'manager.title': '已保存的模式',
+	'manager.search': '搜索名称、描述、文本或标签...',
+	'manager.allTags': '所有标签',
+	'manager.noResults': '没有与搜索匹配的模式',
+	'manager.selectPattern': '选择一个模式进行编辑',
+	'manager.name': '名称',
+	'manager.description': '描述',
+	'manager.tags': '标签',
+	'manager.tagsDesc': '用逗号分隔，例如 cleanup, dates',
+	'manager.usage': '已使用 {count} 次',
+	'manager.duplicate': '复制',
+	'manager.copyName': '{name}（副本）',
+
+	'tests.title': '测试',
+	'tests.desc': '示例输入及模式应生成的输出。每次修改模式时都会运行。',
+	'tests.add': '添加测试',
+	'tests.testNumber': '测试 {number}',
+	'tests.input': '输入',
+	'tests.expected': '预期输出',
+	'tests.passed': '通过',
+	'tests.failed': '失败（− 预期，+ 实际）',
+	'tests.failedCount': '{count} 个失败',
+	'tests.error': '错误：{message}',
+	'tests.timeout': '查找超过 {seconds} 秒',
+	'tests.running': '正在运行模式测试...',
+	'tests.summary': '{total} 个中通过 {passed} 个',
+	'tests.edit': '编辑',
+	'tests.reportTitle': '模式测试：{passed} 个通过，{failed} 个失败',
+	'tests.noTests': '还没有已保存的模式包含测试。可在模式管理器中添加。',
+
+	'vault.title': '在库中正则查找/替换',
+	'vault.files': '文件：',
+	'vault.folder': '文件夹',
+	'vault.glob': 'Glob',
+	'vault.tag': '标签',
+	'vault.folderPlaceholder': '例如 Projects/2023（留空表示整个库）',
+	'vault.globPlaceholder': '例如 Meetings/**/*.md',
+	'vault.tagPlaceholder': '例如 #project',
+	'vault.pressSearch': '预览：输入查找内容后点击“搜索”',
+	'vault.pressSearchToUpdate': '预览：点击“搜索”以更新',
+	'vault.search': '搜索',
+	'vault.replaceInFiles': '在 {count} 个文件中替换',
+	'vault.matchesInFiles': '预览：{files} 个文件中有 {count} 处匹配',
+	'vault.fileMatches': '（{count} 处匹配）',
+	'vault.searching': '正在搜索 {count} 个文件...',
+	'vault.inFiles': '{count} 个文件',
+	'vault.timedOutFiles': '{count} 个文件中的查找超过 {seconds} 秒，这些文件未被修改',
+	'vault.property': '属性：',
+	'vault.propertyPlaceholder': '例如 tags（留空表示整篇笔记）',
+	'vault.propertyChangesInFiles': '预览：{files} 个文件中“{property}”的 {count} 个值',
+
+	'rename.title': '正则重命名文件',
+	'rename.target': '重命名：',
+	'rename.notes': '笔记',
+	'rename.files': '所有文件',
+	'rename.folders': '文件夹',
+	'rename.inFolder': '文件夹内：',
+	'rename.hint': '模式应用于不含扩展名的名称。开启“始终更新内部链接”时会同时更新链接。',
+	'rename.pressPreview': '预览：输入搜索文本并点击预览',
+	'rename.pressPreviewToUpdate': '预览：点击预览以更新',
+	'rename.preview': '预览',
+	'rename.searching': '正在匹配 {count} 个名称...',
+	'rename.noChanges': '预览：没有名称改变',
+	'rename.count': '预览：{count} 项重命名',
+	'rename.conflicts': '，{count} 个冲突',
+	'rename.renameItems': '重命名 {count} 项',
+	'rename.emptyName': '新名称为空',
+	'rename.invalidName': '新名称包含 \\ / : * ? " < > | 之一',
+	'rename.exists': '已存在相同路径的文件或文件夹',
+	'rename.duplicate': '与 {path} 的新路径相同',
+	'rename.confirm': '将重命名 {count} 项。\n\n确定要继续吗？',
+	'rename.done': '已重命名 {count} 项',
+	'rename.failed': '，{count} 项失败（见控制台）',
+
+	'format.applied': '已应用 Markdown 格式修复',
+	'format.noIssues': '未发现需要修复的 Markdown 格式问题',
+	'format.issues': 'Markdown 格式：{count} 个问题',
+	'format.noIssuesTitle': 'Markdown 格式：未发现问题',
+	'format.goToLine': '跳转到该行',
+	'format.fix': '修复',
+	'format.fixAll': '全部修复',
+	'format.blankLine': '（空行）',
+	'rule.heading_duplicate_hashes': '重复标题井号修复',
+	'rule.heading_duplicate_hashes.desc': '将“## ## 标题”改为“## 标题”',
+	'rule.heading_cap_to_h6': '标题级别超过 H6 规范化',
+	'rule.heading_cap_to_h6.desc': '超过六个井号的标题改为 H6',
+	'rule.heading_space_normalize': '标题空格规范化',
+	'rule.heading_space_normalize.desc': '井号与标题文字之间保留一个空格',
+	'rule.list_bullet_space': '无序列表空格修复',
+	'rule.list_bullet_space.desc': '“-”“+”“*”列表符号后保留一个空格',
+	'rule.list_ordered_space': '有序列表空格修复',
+	'rule.list_ordered_space.desc': '“1.”列表符号后保留一个空格',
+	'rule.trim_trailing_whitespace': '行尾空白移除',
+	'rule.trim_trailing_whitespace.desc': '移除行尾空白，保留用于换行的两个空格',
+	'rule.heading_blank_lines': '标题前后空行',
+	'rule.heading_blank_lines.desc': '每个标题前后都保留空行',
+	'rule.bullet_marker': '无序列表符号统一',
+	'rule.bullet_marker.desc': '所有无序列表项使用下方选择的列表符号',
+	'rule.ordered_list_renumber': '有序列表重新编号',
+	'rule.ordered_list_renumber.desc': '从第一项的编号开始为有序列表连续编号',
+	'rule.collapse_blank_lines': '多余空行合并',
+	'rule.collapse_blank_lines.desc': '将连续的多个空行合并为一个',
+	'rule.emphasis_style': '强调符号规范化',
+	'rule.emphasis_style.desc': '使用下方选择的斜体和粗体符号，行内代码不受影响',
+
+	'library.invalid': '不是有效的模式库：需要包含模式列表的 JSON 或 YAML',
+	'library.writeFailed': '无法将模式库写入“{path}”',
+	'library.readFailed': '无法从“{path}”加载模式库，它不是有效的 JSON 或 YAML',
+	'library.unsupportedFile': '模式库文件必须以 .md、.yaml、.yml 或 .json 结尾',
+	'library.exportTitle': '导出已保存的模式',
+	'library.importTitle': '导入模式',
+	'library.format': '格式：',
+	'library.copy': '复制到剪贴板',
+	'library.copied': '已将 {count} 个模式复制到剪贴板',
+	'library.importPlaceholder': '粘贴导出的模式（JSON 或 YAML）',
+	'library.summary': '{count} 个模式：{added} 个新模式，{duplicates} 个已存在',
+	'library.merge': '合并',
+	'library.mergeTooltip': '添加新模式，保留已保存的模式',
+	'library.replace': '替换模式库',
+	'library.replaceTooltip': '移除所有已保存的模式，改用导入的模式',
+	'library.confirmReplace': '将移除全部 {count} 个已保存的模式。\n\n确定要继续吗？',
+	'library.imported': '已导入 {added} 个模式，跳过 {skipped} 个重复模式',
+
+	'settings.language': '语言',
+	'settings.languageDesc': '插件使用的语言。命令名称在重启 Obsidian 后更新。',
+	'settings.languageAuto': '跟随 Obsidian',
+	'settings.regexHeading': '正则表达式设置',
+	'settings.caseInsensitive': '忽略大小写',
+	'settings.caseInsensitiveDesc': '使用 /i 修饰符进行不区分大小写的查找',
+	'settings.multiline': '多行模式',
+	'settings.multilineDesc': '使用 /m 修饰符（^ 和 $ 匹配行首和行尾，而不是整个文本的开头和结尾）',
+	'settings.generalHeading': '常规设置',
+	'settings.processLineBreak': '将 \\n 视为换行',
+	'settings.processLineBreakDesc': '查找或替换内容中的“\\n”将被视为换行符，从而可以跨行查找和替换文本。',
+	'settings.processTab': '将 \\t 视为制表符',
+	'settings.processTabDesc': '查找或替换内容中的“\\t”将被视为制表符，从而可以查找和替换制表符。',
+	'settings.prefillFind': '预填查找内容',
+	'settings.prefillFindDesc': '将当前选中的文本（如有）填入“查找”输入框。仅在选区不包含换行时生效',
+	'settings.previewHeading': '预览与安全',
+	'settings.showPreview': '显示预览',
+	'settings.showPreviewDesc': '在执行替换前实时预览匹配和替换结果',
+	'settings.previewLimit': '预览数量',
+	'settings.previewLimitDesc': '预览中最多显示的匹配数量',
+	'settings.matchTimeout': '查找超时',
+	'settings.matchTimeoutDesc': '正则查找最多可用的秒数，超时即停止，以免模式让 Obsidian 卡死',
+	'settings.confirmLarge': '大量替换前确认',
+	'settings.confirmLargeDesc': '替换大量匹配时显示确认对话框',
+	'settings.largeThreshold': '大量替换阈值',
+	'settings.largeThresholdDesc': '触发确认对话框的匹配数量',
+	'settings.patternsHeading': '已保存的模式',
+	'settings.pinnedCommands': '为固定的模式添加命令',
+	'settings.pinnedCommandsDesc': '每个固定的模式都会作为“运行模式”命令提供，可以为其绑定快捷键。新固定的模式会立即出现，重命名的模式在重启后更新。',
+	'settings.managePatterns': '模式库',
+	'settings.managePatternsDesc': '已保存 {count} 个模式，其中 {pinned} 个已固定',
+	'settings.openManager': '管理模式',
+	'settings.maxHistory': '历史记录数量',
+	'settings.maxHistoryDesc': '历史记录中最多保留的未固定模式数量（固定的模式不会被移除）',
+	'settings.patternDesc': '查找：{find} | 替换：{replace}',
+	'settings.pin': '固定',
+	'settings.unpin': '取消固定',
+	'settings.delete': '删除',
+	'settings.clearPatterns': '清除所有模式',
+	'settings.clearPatternsDesc': '从历史记录中移除所有已保存的模式',
+	'settings.clearAll': '全部清除',
+	'settings.noPatterns': '还没有已保存的模式。执行替换时会自动保存模式。',
+	'settings.transfer': '导入和导出',
+	'settings.transferDesc': '以 JSON 或 YAML 共享已保存的模式。导入时会识别已存在的模式。',
+	'settings.import': '导入',
+	'settings.export': '导出',
+	'settings.libraryFile': '模式库文件',
+	'settings.libraryFileDesc': '将已保存的模式存放在库中的笔记（.md）或 .yaml/.json 文件里，以便像其他文件一样同步和审阅。已存在的文件会被加载，并优先于插件中保存的模式。留空则关闭。',
+	'settings.recipesHeading': '配方',
+	'settings.recipesDesc': '配方会依次运行多个已保存的模式，并作为一次编辑应用。每个配方都可以作为命令使用并绑定快捷键。重命名的配方在重启 Obsidian 后才会在命令面板中显示新名称。',
+	'settings.name': '名称',
+	'settings.steps': '{count} 个步骤',
+	'settings.deleteRecipe': '删除配方',
+	'settings.missingPattern': '（模式已丢失）',
+	'settings.missingPatternDesc': '该模式已被删除，运行时将跳过',
+	'settings.moveUp': '上移',
+	'settings.moveDown': '下移',
+	'settings.removeStep': '移除步骤',
+	'settings.addStep': '添加步骤',
+	'settings.addStepDesc': '配方中使用的模式不会从历史记录中移除',
+	'settings.recipeFix': '修复 Markdown 格式',
+	'settings.recipeFixDesc': '在最后一步之后运行“Markdown：检查并修复格式”',
+	'settings.addRecipe': '添加配方',
+	'settings.formatHeading': 'Markdown 格式规则',
+	'settings.formatDesc': '“Markdown：检查并修复格式”和配方使用的规则。代码块和 Frontmatter 不会被修改。',
+	'settings.bulletMarker': '无序列表符号',
+	'settings.bulletMarkerDesc': '“无序列表符号统一”使用的符号',
+	'settings.emphasisMarkers': '强调符号',
+	'settings.emphasisMarkersDesc': '“强调符号规范化”为斜体和粗体使用的符号',
+	'settings.customHeading': '自定义格式规则',
+	'settings.customDesc': '自定义规则在内置规则之后对每一行进行正则替换。替换内容使用 JavaScript 语法（$1、$&）。',
+	'settings.enabled': '启用',
+	'settings.deleteRule': '删除规则',
+	'settings.find': '查找',
+	'settings.replace': '替换',
+	'settings.addCustomRule': '添加自定义规则',
+	'settings.customRuleName': '规则 {count}'
+};
+
+const catalogs: Record<Language, Record<TranslationKey, string>> = { en, zh };
+
+let currentLanguage: Language = 'en';
+
+// Obsidian sets the moment locale to the language of the app
+export const setLanguage = (setting: LanguageSetting): void => {
+	currentLanguage = setting !== 'auto'
+		? setting
+		: (moment.locale().toLowerCase().startsWith('zh') ? 'zh' : 'en');
+};
+
+export const t = (key: TranslationKey, vars?: { [name: string]: string | number }): string => {
+	const text = catalogs[currentLanguage][key] ?? en[key];
+	if (!vars) return text;
+	return text.replace(/\{(\w+)\}/g, (placeholder, name) => name in vars ? String(vars[name]) : placeholder);
+};
@@ -1,289 +1,1070 @@
 import {
 	App,
 	ButtonComponent,
+	Command,
 	DropdownComponent,
 	Editor,
+	FuzzyMatch,
+	FuzzySuggestModal,
+	ItemView,
+	MarkdownSourceView,
+	MarkdownView,
 	Modal,
 	Notice,
 	Plugin,
+	TextAreaComponent,
 	TextComponent,
 	ToggleComponent,
 	PluginSettingTab,
-	Setting
+	Setting,
+	TAbstractFile,
+	TFile,
+	TFolder,
+	WorkspaceLeaf,
+	getAllTags,
+	debounce,
+	editorViewField,
+	normalizePath,
+	parseYaml,
+	stringifyYaml
 } from 'obsidian';
-
-interface RegexPattern {
-	id: string;
-	name: string;
-	findText: string;
-	replaceText: string;
-	useRegEx: boolean;
-	caseInsensitive: boolean;
-	isPinned: boolean;
-	lastUsed: number;
-	useCount: number;
-}
-
-interface RfrPluginSettings {
-	findText: string;
-	replaceText: string;
-	useRegEx: boolean;
-	selOnly: boolean;
-	caseInsensitive: boolean;
-	multilineMatch: boolean;
-	processLineBreak: boolean;
-	processTab: boolean;
-	prefillFind: boolean;
-	savedPatterns: RegexPattern[];
-	maxHistorySize: number;
-	showPreview: boolean;
-	previewLimit: number;
-	confirmLargeReplace: boolean;
-	largeReplaceThreshold: number;
-}
-
-const DEFAULT_SETTINGS: RfrPluginSettings = {
-	findText: '',
-	replaceText: '',
-	useRegEx: true,
-	selOnly: false,
-	caseInsensitive: true,
-	multilineMatch: true,
-	processLineBreak: false,
-	processTab: false,
-	prefillFind: false,
-	savedPatterns: [],
-	maxHistorySize: 10,
-	showPreview: true,
-	previewLimit: 5,
-	confirmLargeReplace: true,
-	largeReplaceThreshold: 20
-}
-
-// logThreshold: 0 ... only error messages
-//               9 ... verbose output
-const logThreshold = 9;
-const logger = (logString: string, logLevel=0): void => {if (logLevel <= logThreshold) console.log ('RegexFiRe: ' + logString)};
-
-type FixStat = { key: string; count: number };
-
-interface MatchPreview {
-	lineNumber: number;
-	lineContent: string;
-	matchedText: string;
-	replacementText: string;
-	matchIndex: number;
-	lineAfterReplace: string;
-	matchStartInLine: number;
-	matchEndInLine: number;
-	isMultiLine: boolean;
+import { StateEffect, StateField } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin } from '@codemirror/view';
+import {
+	FORMAT_RULES,
+	FormatIssue,
+	checkMarkdownFormatting,
+	fixMarkdownFormatting,
+	isFormatRuleEnabled
+} from './format';
+import { LanguageSetting, TranslationKey, setLanguage, t } from './i18n';
+import { logger } from './logger';
+import {
+	MatchAbortedError,
+	MatchPreview,
+	MatchWorker,
+	ReplacementContext,
+	SkippedMatch,
+	TextMatch,
+	createReplacementContext,
+	expandReplacement,
+	findMatchesInWorker,
+	generateMatchPreviews,
+	offsetTextMatches,
+	replaceInText,
+	replaceMatches
+} from './matching';
+import {
+	RegexGroupKind,
+	RegexSyntaxError,
+	RegexToken,
+	analyzeRegex
+} from './regex';
+import {
+	ScopeRestriction,
+	SectionRange,
+	SectionScope,
+	applyMatchScope,
+	computeExcludedRanges,
+	findHeadings,
+	findPropertyRange,
+	findSectionScopeRange,
+	getSectionScopeLabel
+} from './scope';
+import {
+	BulletMarker,
+	DEFAULT_SETTINGS,
+	RegexPattern,
+	RegexRecipe,
+	RenameTarget,
+	RfrPluginSettings,
+	VaultScopeMode
+} from './settings';
+
+// A replacement of the range [from, to) of the text, with offsets in the text before any edit
+interface TextEdit {
+	from: number;
+	to: number;
+	text: string;
 }
 
-const generateMatchPreviews = (
+// The edits replacing the given matches, numbered across all of them
+const buildMatchEdits = (
 	text: string,
-	searchString: string,
+	matches: TextMatch[],
 	replaceString: string,
 	useRegEx: boolean,
-	caseInsensitive: boolean,
-	multilineMatch: boolean,
-	limit: number
-): { previews: MatchPreview[], totalCount: number } => {
-	const previews: MatchPreview[] = [];
-	const lines = text.split('\n');
-	let totalCount = 0;
-	let matchIndex = 0;
-
-	if (useRegEx) {
-		let regexFlags = 'g';
-		if (multilineMatch) regexFlags += 'm';
-		if (caseInsensitive) regexFlags += 'i';
-		try {
-			const searchRegex = new RegExp(searchString, regexFlags);
-			const allMatches = text.match(searchRegex);
-			totalCount = allMatches ? allMatches.length : 0;
+	context: ReplacementContext
+): TextEdit[] => {
+	return matches.map((m, index) => ({
+		from: m.from,
+		to: m.to,
+		text: useRegEx ? expandReplacement(replaceString, m, text, index + 1, context) : replaceString
+	}));
+};
 
-			for (let i = 0; i < lines.length && previews.length < limit; i++) {
-				const line = lines[i];
-				const lineRegex = new RegExp(searchString, caseInsensitive ? 'gi' : 'g');
-				let match;
+// The single edit that turns one text into the other, leaving out their common start and end
+const diffTexts = (before: string, after: string): TextEdit => {
+	const maxStart = Math.min(before.length, after.length);
+	let start = 0;
+	while (start < maxStart && before[start] === after[start]) start++;
+	let end = 0;
+	while (end < maxStart - start && before[before.length - 1 - end] === after[after.length - 1 - end]) end++;
+	return { from: start, to: before.length - end, text: after.substring(start, after.length - end) };
+};
 
-				while ((match = lineRegex.exec(line)) !== null) {
-					if (previews.length >= limit) break;
+// Replaces only the changed part of the note, so the cursor, the selections and the scroll position are kept
+const replaceNoteText = (editor: Editor, before: string, after: string): void => {
+	const edit = diffTexts(before, after);
+	editor.replaceRange(edit.text, editor.offsetToPos(edit.from), editor.offsetToPos(edit.to));
+};
 
-					// Calculate the replacement for this specific match
-					// Manually handle replacement string special patterns
-					let replacementText = replaceString;
+// Moves a range over the edits, so that it covers the same text afterwards, including the edits made inside it
+const mapRangeThroughEdits = (range: { from: number, to: number }, edits: TextEdit[]): { from: number, to: number } => {
+	let from = range.from;
+	let to = range.to;
+	edits.forEach(edit => {
+		const delta = edit.text.length - (edit.to - edit.from);
+		if (edit.to <= range.from && edit.from < range.from) from += delta;
+		if (edit.to <= range.to) to += delta;
+	});
+	return { from, to };
+};
 
-					// First, protect $$ by replacing with a placeholder
-					const dollarPlaceholder = '\x00DOLLAR\x00';
-					replacementText = replacementText.replace(/\$\$/g, dollarPlaceholder);
+// Turns the matches into editor selections: the whole matches, or the capture group with the given number.
+// Matches the group did not take part in are left out. Offset is where the searched text starts in the note.
+const selectMatchesInEditor = (editor: Editor, matches: TextMatch[], offset: number, group: number): number => {
+	const ranges: { from: number, to: number }[] = [];
+	matches.forEach(m => {
+		const range = group > 0 ? (m.groupRanges ? m.groupRanges[group] : undefined) : m;
+		if (range) ranges.push({ from: offset + range.from, to: offset + range.to });
+	});
+	if (ranges.length === 0) return 0;
+
+	editor.setSelections(ranges.map(range => ({ anchor: editor.offsetToPos(range.from), head: editor.offsetToPos(range.to) })), 0);
+	editor.scrollIntoView({ from: editor.offsetToPos(ranges[0].from), to: editor.offsetToPos(ranges[0].to) }, true);
+	editor.focus();
+	return ranges.length;
+};
 
-					// Get match position for $` and $'
-					const matchStart = match.index !== undefined ? match.index : 0;
-					const matchEnd = matchStart + match[0].length;
+const buildRegexFlags = (settings: RfrPluginSettings): string => {
+	let flags = 'g';
+	if (settings.multilineMatch) flags += 'm';
+	if (settings.caseInsensitive) flags += 'i';
+	return flags;
+};
 
-					// Replace $` with text before match
-					const beforeMatch = line.substring(0, matchStart);
-					replacementText = replacementText.replace(/\$`/g, beforeMatch);
+const processEscapeSequences = (text: string, settings: RfrPluginSettings): string => {
+	let result = text;
+	if (settings.processLineBreak) result = result.replace(/\\n/gm, '\n');
+	if (settings.processTab) result = result.replace(/\\t/gm, '\t');
+	return result;
+};
 
-					// Replace $' with text after match
-					const afterMatch = line.substring(matchEnd);
-					replacementText = replacementText.replace(/\$'/g, afterMatch);
+// Converts a vault path glob to a RegExp: ** spans folders, * and ? stay within one path segment
+const globToRegExp = (glob: string): RegExp => {
+	let source = '';
+	for (let i = 0; i < glob.length; i++) {
+		const c = glob[i];
+		if (c === '*') {
+			if (glob[i + 1] === '*') {
+				i++;
+				if (glob[i + 1] === '/') {
+					source += '(?:.*/)?';
+					i++;
+				} else {
+					source += '.*';
+				}
+			} else {
+				source += '[^/]*';
+			}
+		} else if (c === '?') {
+			source += '[^/]';
+		} else {
+			source += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp('^' + source + '$', 'i');
+};
 
-					// Replace $& with the entire match
-					replacementText = replacementText.replace(/\$&/g, match[0]);
+interface RegexDiagnostics {
+	error: RegexSyntaxError | null;
+	warnings: string[];
+}
 
-					// Replace $n with capture groups (in reverse order to avoid conflicts like $1 and $10)
-					for (let n = match.length - 1; n >= 1; n--) {
-						const groupValue = match[n] !== undefined ? match[n] : '';
-						replacementText = replacementText.replace(new RegExp('\\$' + n, 'g'), groupValue);
-					}
+// Validates the find and replace fields, for display next to them
+const diagnoseFindReplace = (findText: string, replaceText: string, useRegEx: boolean, regexFlags: string): RegexDiagnostics => {
+	const warnings: string[] = [];
+	if (!findText) return { error: null, warnings };
 
-					// Finally, restore $$ to literal $
-					replacementText = replacementText.replace(new RegExp(dollarPlaceholder, 'g'), '$');
-
-					// Calculate the full line after replacement
-					const lineAfterReplace = line.substring(0, matchStart) + replacementText + line.substring(matchEnd);
-
-					// Check if match contains newlines
-					const isMultiLine = match[0].includes('\n');
-
-					previews.push({
-						lineNumber: i + 1,
-						lineContent: line,
-						matchedText: match[0],
-						replacementText: replacementText,
-						matchIndex: matchIndex++,
-						lineAfterReplace: lineAfterReplace,
-						matchStartInLine: matchStart,
-						matchEndInLine: matchEnd,
-						isMultiLine: isMultiLine
-					});
-					if (!lineRegex.global) break;
-				}
+	if (!useRegEx) {
+		const syntax = findText.match(/\\[dDwWsSbB]|\.[*+?]|\[[^\]]+\]|\(\?[:=!<]|\{\d+(?:,\d*)?\}|^\^|\$$|\|/);
+		if (syntax) warnings.push(t('regex.warnRegexOff', { syntax: syntax[0] }));
+		return { error: null, warnings };
+	}
+
+	const analysis = analyzeRegex(findText);
+	let regex: RegExp;
+	try {
+		regex = new RegExp(findText, regexFlags);
+	} catch (e) {
+		// The analysis knows where the error is, the browser knows what it is if the analysis missed it
+		const nativeMessage = String((e as Error).message).replace(/^Invalid regular expression: \/[\s\S]*\/[a-z]*: /, '');
+		return { error: analysis.error ?? { message: nativeMessage, position: -1 }, warnings };
+	}
+
+	const referenceRegex = /\$(?:\$|&|`|'|\{[^}]*\}|<([^>]*)>|(\d{1,2}))/g;
+	let reference;
+	let warnedNoGroups = false;
+	while ((reference = referenceRegex.exec(replaceText)) !== null) {
+		const [text, name, digits] = reference;
+		if (name !== undefined && analysis.groupNames.indexOf(name) === -1) {
+			warnings.push(t('regex.warnUnknownName', { reference: text }));
+		} else if (digits !== undefined) {
+			// $12 falls back to $1 followed by "2" if there is no group 12
+			const number = parseInt(digits, 10) <= analysis.groupCount ? parseInt(digits, 10) : parseInt(digits[0], 10);
+			if (number === 0) continue;
+			if (analysis.groupCount === 0) {
+				if (!warnedNoGroups) warnings.push(t('regex.warnNoGroups', { reference: text }));
+				warnedNoGroups = true;
+			} else if (number > analysis.groupCount) {
+				warnings.push(t('regex.warnMissingGroup', { reference: '$' + number, count: analysis.groupCount }));
 			}
-		} catch (e) {
-			logger('Invalid regex pattern: ' + e, 0);
-			return { previews: [], totalCount: 0 };
 		}
-	} else {
-		const occurrences = text.split(searchString).length - 1;
-		totalCount = occurrences;
-
-		for (let i = 0; i < lines.length && previews.length < limit; i++) {
-			const line = lines[i];
-			const matchStart = line.indexOf(searchString);
-			if (matchStart !== -1) {
-				const matchEnd = matchStart + searchString.length;
-				const lineAfterReplace = line.split(searchString).join(replaceString);
-				const isMultiLine = searchString.includes('\n');
-
-				previews.push({
-					lineNumber: i + 1,
-					lineContent: line,
-					matchedText: searchString,
-					replacementText: replaceString,
-					matchIndex: matchIndex++,
-					lineAfterReplace: lineAfterReplace,
-					matchStartInLine: matchStart,
-					matchEndInLine: matchEnd,
-					isMultiLine: isMultiLine
-				});
-			}
+	}
+
+	if (regex.exec('') !== null) warnings.push(t('regex.warnEmptyMatch'));
+
+	return { error: null, warnings };
+};
+
+// Shows the error of a pattern with a caret under its position, and the warnings below it
+const renderRegexDiagnostics = (containerEl: HTMLElement, findText: string, diagnostics: RegexDiagnostics): void => {
+	containerEl.empty();
+	const { error, warnings } = diagnostics;
+	if (error) {
+		const errorEl = document.createElement('div');
+		errorEl.addClass('regex-error');
+		errorEl.setText(error.position >= 0
+			? t('regex.errorAt', { message: error.message, position: error.position + 1 })
+			: error.message);
+		containerEl.appendChild(errorEl);
+
+		if (error.position >= 0) {
+			const snippetEl = document.createElement('pre');
+			snippetEl.addClass('regex-error-snippet');
+			snippetEl.setText(findText + '\n' + ' '.repeat(error.position) + '^');
+			containerEl.appendChild(snippetEl);
 		}
 	}
+	warnings.forEach(warning => {
+		const warningEl = document.createElement('div');
+		warningEl.addClass('regex-warning');
+		warningEl.setText('⚠ ' + warning);
+		containerEl.appendChild(warningEl);
+	});
+	containerEl.style.display = error || warnings.length > 0 ? '' : 'none';
+};
 
-	return { previews, totalCount };
+// Shows the tokens of a regular expression in colour behind a text field, the field itself stays editable
+const attachRegexHighlighter = (inputEl: HTMLInputElement): ((enabled: boolean, error: RegexSyntaxError | null) => void) => {
+	const wrapperEl = inputEl.parentElement;
+	wrapperEl.addClass('regex-highlight');
+	const backdropEl = document.createElement('div');
+	backdropEl.addClass('regex-highlight-backdrop');
+	wrapperEl.insertBefore(backdropEl, inputEl);
+
+	let isEnabled = false;
+	const syncScroll = () => { backdropEl.scrollLeft = inputEl.scrollLeft; };
+	inputEl.addEventListener('scroll', syncScroll);
+	inputEl.addEventListener('keyup', syncScroll);
+
+	return (enabled: boolean, error: RegexSyntaxError | null) => {
+		isEnabled = enabled;
+		inputEl.toggleClass('regex-highlight-input', isEnabled);
+		backdropEl.empty();
+		backdropEl.style.display = isEnabled ? '' : 'none';
+		if (!isEnabled) return;
+
+		// The backdrop has to line up with the text of the input, whatever the theme does to it
+		const inputStyle = getComputedStyle(inputEl);
+		backdropEl.style.left = inputEl.offsetLeft + 'px';
+		backdropEl.style.top = inputEl.offsetTop + 'px';
+		backdropEl.style.width = inputEl.offsetWidth + 'px';
+		backdropEl.style.height = inputEl.offsetHeight + 'px';
+		backdropEl.style.padding = inputStyle.padding;
+		backdropEl.style.borderWidth = inputStyle.borderWidth;
+		backdropEl.style.fontSize = inputStyle.fontSize;
+		backdropEl.style.lineHeight = inputStyle.lineHeight;
+
+		const source = inputEl.value;
+		analyzeRegex(source).tokens.forEach(token => {
+			const tokenEl = document.createElement('span');
+			tokenEl.addClass('regex-token-' + token.type);
+			if (error && error.position >= token.from && error.position < token.to) tokenEl.addClass('regex-token-error');
+			tokenEl.setText(token.text);
+			backdropEl.appendChild(tokenEl);
+		});
+		// A trailing space keeps the backdrop as wide as the input when the caret is at the end
+		backdropEl.appendChild(document.createTextNode(' '));
+		syncScroll();
+	};
 };
 
-const fixMarkdownFormatting = (text: string): { text: string; stats: FixStat[] } => {
-	let stats: FixStat[] = [];
-	const inc = (key: string, by = 1) => {
-		const s = stats.find(x => x.key === key);
-		if (s) s.count += by; else stats.push({ key, count: by });
+type RegexNode =
+	| { kind: 'token', token: RegexToken, quantifier: RegexToken | null }
+	| { kind: 'group', open: RegexToken, children: RegexNode[], quantifier: RegexToken | null };
+
+interface RegexExplanationLine {
+	depth: number;
+	text: string;
+}
+
+// Nests the tokens of a valid regular expression by group
+const buildRegexTree = (tokens: RegexToken[]): RegexNode[] => {
+	let index = 0;
+	const parseSequence = (): RegexNode[] => {
+		const nodes: RegexNode[] = [];
+		while (index < tokens.length) {
+			const token = tokens[index++];
+			if (token.type === 'group-close') break;
+			if (token.type === 'quantifier') {
+				if (nodes.length > 0) nodes[nodes.length - 1].quantifier = token;
+				continue;
+			}
+			if (token.type === 'group-open') {
+				nodes.push({ kind: 'group', open: token, children: parseSequence(), quantifier: null });
+			} else {
+				nodes.push({ kind: 'token', token, quantifier: null });
+			}
+		}
+		return nodes;
 	};
+	return parseSequence();
+};
+
+// Describes a quantifier around an item, the plural form of the item is used for repetitions
+const describeQuantifier = (quantifier: RegexToken | null, singular: string, plural: string): string => {
+	if (!quantifier) return singular;
+	const lazy = quantifier.text.length > 1 && quantifier.text[quantifier.text.length - 1] === '?';
+	const base = lazy ? quantifier.text.slice(0, -1) : quantifier.text;
+	// Groups have no noun to count, so their repetitions are described on their own
+	const isGroup = singular === '';
+	let text: string;
+	if (base === '*') text = isGroup ? t('explain.repeatAny') : t('explain.zeroOrMore', { item: plural });
+	else if (base === '+') text = isGroup ? t('explain.repeatOneOrMore') : t('explain.oneOrMore', { item: plural });
+	else if (base === '?') text = isGroup ? t('explain.repeatOptional') : t('explain.optional', { item: singular });
+	else {
+		const [, min, comma, max] = base.match(/^\{(\d+)(,?)(\d*)\}$/);
+		if (!comma) text = isGroup ? t('explain.repeatExactly', { count: min }) : t('explain.exactly', { count: min, item: min === '1' ? singular : plural });
+		else if (!max) text = isGroup ? t('explain.repeatAtLeast', { min }) : t('explain.atLeast', { min, item: plural });
+		else text = isGroup ? t('explain.repeatBetween', { min, max }) : t('explain.between', { min, max, item: plural });
+	}
+	return lazy ? t('explain.lazy', { text }) : text;
+};
 
-	const lines = text.split('\n');
-	let inFence = false;
-	let fenceMarker = '';
-	for (let i = 0; i < lines.length; i++) {
-		let line = lines[i];
-		const fenceMatch = line.match(/^\s*(```+|~~~+)/);
-		if (fenceMatch) {
-			const marker = fenceMatch[1].startsWith('`') ? '```' : '~~~';
-			if (!inFence) { inFence = true; fenceMarker = marker; }
-			else if (marker === fenceMarker) { inFence = false; fenceMarker = ''; }
-			lines[i] = line;
-			continue;
+const describeRegexToken = (token: RegexToken, multiline: boolean): [string, string] => {
+	const both = (text: string): [string, string] => [text, text];
+	switch (token.type) {
+		case 'dot':
+			return [t('explain.any'), t('explain.anyPlural')];
+		case 'anchor':
+			if (token.text === '^') return both(multiline ? t('explain.lineStart') : t('explain.textStart'));
+			if (token.text === '$') return both(multiline ? t('explain.lineEnd') : t('explain.textEnd'));
+			return both(token.text === '\\b' ? t('explain.wordBoundary') : t('explain.notWordBoundary'));
+		case 'backreference': {
+			const name = token.text.match(/^\\k<([^>]*)>$/);
+			return both(t('explain.backreference', { group: name ? name[1] : token.text.substring(1) }));
+		}
+		case 'class': {
+			const negated = token.text[1] === '^';
+			const set = token.text.slice(negated ? 2 : 1, -1);
+			return negated
+				? [t('explain.notInClass', { set }), t('explain.notInClassPlural', { set })]
+				: [t('explain.inClass', { set }), t('explain.inClassPlural', { set })];
+		}
+		case 'escape': {
+			const classes: { [escape: string]: TranslationKey } = {
+				'\\d': 'explain.digit', '\\D': 'explain.nonDigit',
+				'\\w': 'explain.word', '\\W': 'explain.nonWord',
+				'\\s': 'explain.whitespace', '\\S': 'explain.nonWhitespace',
+				'\\n': 'explain.lineBreak', '\\t': 'explain.tab'
+			};
+			const key = classes[token.text];
+			if (key) return [t(key), t((key + 'Plural') as TranslationKey)];
+			return both(t('explain.text', { text: token.text.length === 2 ? token.text[1] : token.text }));
 		}
-		if (inFence) { continue; }
+		default:
+			return both(t('explain.text', { text: token.text }));
+	}
+};
 
-		let updated = line;
+// Turns a regular expression into one line per part, groups get a heading with their parts indented below
+const explainRegex = (source: string, multiline: boolean): RegexExplanationLine[] => {
+	const analysis = analyzeRegex(source);
+	if (analysis.error) return [];
+	const lines: RegexExplanationLine[] = [];
+
+	const explainSequence = (nodes: RegexNode[], depth: number) => {
+		let text = '';
+		const flushText = () => {
+			if (text) lines.push({ depth, text: t('explain.text', { text }) });
+			text = '';
+		};
 
-		const dupHead = updated.replace(/^(\s{0,3})(#{1,6})\s+#{1,6}\s+(.+)$/, (_m, p1, p2, p3) => {
-			inc('heading_duplicate_hashes');
-			return `${p1}${p2} ${String(p3).trim()}`;
-		});
-		updated = dupHead;
+		nodes.forEach(node => {
+			if (node.kind === 'token') {
+				const { token } = node;
+				// Plain and escaped characters are read together, unless a quantifier applies to the last one
+				if (token.type === 'literal' && !node.quantifier) {
+					text += token.text;
+					return;
+				}
+				if (token.type === 'escape' && /^\\[^A-Za-z0-9]$/.test(token.text) && !node.quantifier) {
+					text += token.text[1];
+					return;
+				}
+				flushText();
+				if (token.type === 'alternation') {
+					lines.push({ depth, text: t('explain.or') });
+					return;
+				}
+				const [singular, plural] = describeRegexToken(token, multiline);
+				lines.push({ depth, text: describeQuantifier(node.quantifier, singular, plural) });
+				return;
+			}
 
-		const capHead = updated.replace(/^(\s*)(#{7,})\s+(\S.*)$/, (_m, p1, _p2, p3) => {
-			inc('heading_cap_to_h6');
-			return `${p1}###### ${p3}`;
+			flushText();
+			const { open } = node;
+			const headings: { [kind in RegexGroupKind]: string } = {
+				'capture': t('explain.group', { group: open.groupNumber }),
+				'named': t('explain.namedGroup', { group: open.groupNumber, name: open.groupName }),
+				'non-capture': t('explain.nonCaptureGroup'),
+				'lookahead': t('explain.lookahead'),
+				'negative-lookahead': t('explain.negativeLookahead'),
+				'lookbehind': t('explain.lookbehind'),
+				'negative-lookbehind': t('explain.negativeLookbehind')
+			};
+			let heading = headings[open.groupKind];
+			if (node.quantifier) heading += ' · ' + describeQuantifier(node.quantifier, '', '');
+
+			const headingIndex = lines.length;
+			lines.push({ depth, text: heading });
+			explainSequence(node.children, depth + 1);
+			// A group with a single part reads better on one line, as in "group 1: one or more digits"
+			if (lines.length === headingIndex + 2) {
+				const [child] = lines.splice(headingIndex + 1, 1);
+				lines[headingIndex].text += ': ' + child.text;
+			} else if (lines.length === headingIndex + 1) {
+				lines[headingIndex].text += ': ' + t('explain.empty');
+			}
 		});
-		updated = capHead;
+		flushText();
+	};
 
-		const normHead = updated.replace(/^(\s{0,3})(#{1,6})[ \t]*(\S.*)$/, (m, p1, p2, p3) => {
-			const desired = `${p1}${p2} ${p3}`;
-			if (m !== desired) inc('heading_space_normalize');
-			return desired;
-		});
-		updated = normHead;
+	explainSequence(buildRegexTree(analysis.tokens), 0);
+	return lines;
+};
 
-		const listBullet = updated.replace(/^(\s*)([-+*])[ \t]*(\S)/, (m, p1, p2, p3) => {
-			const desired = `${p1}${p2} ${p3}`;
-			if (m !== desired) inc('list_bullet_space');
-			return desired;
-		});
-		updated = listBullet;
+// Returns the number of lines, so callers can hide the explanation when there is nothing to explain
+const renderRegexExplanation = (containerEl: HTMLElement, source: string, multiline: boolean): number => {
+	containerEl.empty();
+	const lines = source ? explainRegex(source, multiline) : [];
+	lines.forEach(line => {
+		const lineEl = document.createElement('div');
+		lineEl.addClass('regex-explanation-line');
+		lineEl.style.paddingLeft = (line.depth * 1.2) + 'em';
+		lineEl.setText(line.text);
+		containerEl.appendChild(lineEl);
+	});
+	return lines.length;
+};
+
+// A file or folder whose name the pattern changes
+interface RenamePlan {
+	item: TAbstractFile;
+	// Files are renamed without their extension
+	oldName: string;
+	newName: string;
+	newPath: string;
+	// Why the rename can not be made, empty if it can
+	conflict: string;
+	included: boolean;
+}
+
+// Characters Obsidian does not allow in file and folder names
+const INVALID_NAME_CHARACTERS = /[\\/:*?"<>|]/;
+
+const getRenameName = (item: TAbstractFile): string => item instanceof TFile ? item.basename : item.name;
+
+// The path is built from the current parent, which changes if the parent folder is renamed first
+const buildRenamedPath = (item: TAbstractFile, newName: string): string => {
+	const parentPath = item.parent && item.parent.path !== '/' ? item.parent.path + '/' : '';
+	const extension = item instanceof TFile && item.extension ? '.' + item.extension : '';
+	return parentPath + newName + extension;
+};
+
+// Marks renames that would fail or overwrite something. Paths are compared ignoring case,
+// since notes that only differ in case are the same file on Windows and macOS.
+const findRenameConflicts = (plans: RenamePlan[], existingPaths: Set<string>): void => {
+	const targets: { [path: string]: RenamePlan } = {};
+	plans.forEach(plan => {
+		plan.conflict = '';
+		if (!plan.included) return;
+		const key = plan.newPath.toLowerCase();
+		if (!plan.newName.trim()) plan.conflict = t('rename.emptyName');
+		else if (INVALID_NAME_CHARACTERS.test(plan.newName)) plan.conflict = t('rename.invalidName');
+		else if (existingPaths.has(key) && key !== plan.item.path.toLowerCase()) plan.conflict = t('rename.exists');
+
+		const other = targets[key];
+		if (other) {
+			plan.conflict = plan.conflict || t('rename.duplicate', { path: other.item.path });
+			other.conflict = other.conflict || t('rename.duplicate', { path: plan.item.path });
+		} else {
+			targets[key] = plan;
+		}
+	});
+};
+
+const escapeHtml = (text: string) => {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#039;');
+};
+
+const truncateWithEllipsis = (text: string, maxLen: number) => {
+	if (text.length <= maxLen) return text;
+	return text.substring(0, maxLen - 3) + '...';
+};
+
+// Escapes a line and wraps its part from..to in a span. The plain text is cut first, so the markup is never cut.
+const renderHighlightedLine = (line: string, from: number, to: number, style: string, maxLen: number): string => {
+	const visibleLength = line.length > maxLen ? maxLen - 3 : line.length;
+	const start = Math.min(from, visibleLength);
+	const end = Math.min(to, visibleLength);
+	return escapeHtml(line.substring(0, start))
+		+ `<span style="${style}">${escapeHtml(line.substring(start, end))}</span>`
+		+ escapeHtml(line.substring(end, visibleLength))
+		+ (visibleLength < line.length ? '...' : '');
+};
 
-		const listOrdered = updated.replace(/^(\s*)(\d+\.)[ \t]*(\S)/, (m, p1, p2, p3) => {
-			const desired = `${p1}${p2} ${p3}`;
-			if (m !== desired) inc('list_ordered_space');
-			return desired;
+const GROUP_COLOR_COUNT = 6;
+const groupColorClass = (groupNumber: number): string => `rfr-group-color-${(groupNumber - 1) % GROUP_COLOR_COUNT + 1}`;
+
+// Colours the pattern by capture group, each token gets the colour of the innermost group it belongs to
+const renderColoredPattern = (findText: string): string => {
+	const openGroups: RegexToken[] = [];
+	const enclosingGroup = () => {
+		for (let i = openGroups.length - 1; i >= 0; i--) {
+			if (openGroups[i].groupNumber) return openGroups[i].groupNumber;
+		}
+		return 0;
+	};
+	return analyzeRegex(findText).tokens.map(token => {
+		let groupNumber: number;
+		if (token.type === 'group-open') {
+			groupNumber = token.groupNumber || enclosingGroup();
+			openGroups.push(token);
+		} else if (token.type === 'group-close') {
+			openGroups.pop();
+			groupNumber = token.groupNumber || enclosingGroup();
+		} else {
+			groupNumber = enclosingGroup();
+		}
+		return groupNumber ? `<span class="${groupColorClass(groupNumber)}">${escapeHtml(token.text)}</span>` : escapeHtml(token.text);
+	}).join('');
+};
+
+// Colours the characters of the line by the innermost group that captured them, around the match
+const renderColoredLine = (p: MatchPreview): string => {
+	const line = p.lineContent;
+	const from = Math.max(0, p.matchStartInLine - 40);
+	const to = Math.min(line.length, p.matchEndInLine + 40);
+	const groupAt = (ch: number) => {
+		let groupNumber = 0;
+		p.groups.forEach(group => {
+			if (group.from !== undefined && group.from <= ch && ch < group.to) groupNumber = group.number;
 		});
-		updated = listOrdered;
+		return groupNumber;
+	};
+
+	let html = from > 0 ? '…' : '';
+	let segmentStart = from;
+	const closeSegment = (end: number) => {
+		if (end <= segmentStart) return;
+		const text = escapeHtml(line.substring(segmentStart, end));
+		const groupNumber = groupAt(segmentStart);
+		const inMatch = segmentStart >= p.matchStartInLine && segmentStart < p.matchEndInLine;
+		if (groupNumber) html += `<span class="${groupColorClass(groupNumber)}">${text}</span>`;
+		else if (inMatch) html += `<span class="rfr-group-match">${text}</span>`;
+		else html += text;
+		segmentStart = end;
+	};
+	for (let ch = from + 1; ch < to; ch++) {
+		const inMatch = (ch >= p.matchStartInLine && ch < p.matchEndInLine) !== (ch - 1 >= p.matchStartInLine && ch - 1 < p.matchEndInLine);
+		if (inMatch || groupAt(ch) !== groupAt(ch - 1)) closeSegment(ch);
+	}
+	closeSegment(to);
+	return html + (to < line.length ? '…' : '');
+};
+
+// Expandable list of the capture groups of a match, to see what $1, $2, ... stand for
+const renderGroupInspector = (p: MatchPreview, findText: string, open: boolean): string => {
+	if (p.groups.length === 0) return '';
+	const groupNames: { [groupNumber: number]: string } = {};
+	analyzeRegex(findText).tokens
+		.filter(token => token.type === 'group-open' && token.groupName)
+		.forEach(token => { groupNames[token.groupNumber] = token.groupName; });
+
+	let html = `<details class="rfr-group-inspector" data-from="${p.from}" data-to="${p.to}"${open ? ' open' : ''}>`;
+	html += `<summary>${escapeHtml(t('groups.title', { count: p.groups.length }))}</summary>`;
+	html += `<div class="rfr-group-source"><span class="rfr-group-label">${escapeHtml(t('groups.pattern'))}</span>${renderColoredPattern(findText)}</div>`;
+	if (!p.isMultiLine && p.groups.some(group => group.from !== undefined)) {
+		html += `<div class="rfr-group-source"><span class="rfr-group-label">${escapeHtml(t('groups.line'))}</span>${renderColoredLine(p)}</div>`;
+	}
+	html += '<table class="rfr-group-table">';
+	p.groups.forEach(group => {
+		const name = groupNames[group.number];
+		const value = group.value === undefined
+			? `<em>${escapeHtml(t('groups.notParticipating'))}</em>`
+			: `"${escapeHtml(truncateWithEllipsis(group.value.replace(/\n/g, '↵'), 80))}"`;
+		const position = group.from !== undefined ? escapeHtml(t('groups.position', { from: group.from + 1, to: group.to })) : '';
+		html += '<tr>'
+			+ `<td><span class="${groupColorClass(group.number)}">$${group.number}</span></td>`
+			+ `<td>${name ? escapeHtml(`$<${name}>`) : ''}</td>`
+			+ `<td>${value}</td>`
+			+ `<td class="rfr-group-position">${position}</td>`
+			+ '</tr>';
+	});
+	html += '</table></details>';
+	return html;
+};
+
+// Renders a preview card, optionally with a checkbox to include or exclude the match from the replacement
+const renderPreviewCard = (p: MatchPreview, selection?: { checked: boolean }, inspector?: { findText: string, open: boolean }): string => {
+	let previewHtml = '';
+	const cardStyle = 'margin-bottom: 0.8em; padding: 0.5em; border-left: 3px solid var(--interactive-accent); background: var(--background-secondary-alt);'
+		+ (selection && !selection.checked ? ' opacity: 0.5;' : '');
+	const checkboxHtml = selection
+		? `<input type="checkbox" class="match-checkbox" data-from="${p.from}" data-to="${p.to}"${selection.checked ? ' checked' : ''} style="margin: 0 0.5em 0 0; vertical-align: middle;">`
+		: '';
+	const selectionLabel = p.selection !== undefined ? t('preview.selectionNumber', { number: p.selection }) + ' · ' : '';
+	const maxLineLen = 120;
+	if (p.skippedReason !== undefined) {
+		// Matches outside the Markdown scope are shown dimmed, without a replacement
+		const displayLine = p.isMultiLine
+			? escapeHtml(truncateWithEllipsis(p.matchedText.replace(/\n/g, '↵'), 60))
+			: renderHighlightedLine(p.lineContent, p.matchStartInLine, p.matchEndInLine, 'outline: 1px dashed var(--text-faint); border-radius: 2px;', maxLineLen);
+
+		previewHtml += `<div class="match-card" style="margin-bottom: 0.8em; padding: 0.5em; border-left: 3px dashed var(--text-faint); opacity: 0.6;">`;
+		previewHtml += `<div style="font-size: 0.85em; color: var(--text-muted); margin-bottom: 0.3em;">${escapeHtml(selectionLabel + t('preview.skipped', { line: p.lineNumber, reason: p.skippedReason }))}</div>`;
+		previewHtml += `<div style="font-family: var(--font-monospace); font-size: 0.9em; line-height: 1.6;">${displayLine}</div>`;
+		previewHtml += `</div>`;
+		return previewHtml;
+	}
+	if (p.isMultiLine) {
+		// Handle multi-line matches specially
+		const displayMatch = truncateWithEllipsis(p.matchedText.replace(/\n/g, '↵'), 60);
+		const displayReplace = truncateWithEllipsis(p.replacementText.replace(/\n/g, '↵'), 60);
+
+		previewHtml += `<div class="match-card" style="${cardStyle}">`;
+		previewHtml += `<div style="font-size: 0.85em; color: var(--text-muted); margin-bottom: 0.3em;">${checkboxHtml}${selectionLabel}${t('preview.line', { line: p.lineNumber })} <span style="color: var(--text-warning);">${t('preview.multiLine')}</span></div>`;
+		previewHtml += `<div style="font-family: var(--font-monospace); font-size: 0.9em;">`;
+		previewHtml += `<div style="color: var(--text-error); margin-bottom: 0.2em;"><span style="opacity: 0.6;">−</span> ${escapeHtml(displayMatch)}</div>`;
+		previewHtml += `<div style="color: var(--text-success);"><span style="opacity: 0.6;">+</span> ${escapeHtml(displayReplace)}</div>`;
+		previewHtml += `</div>`;
+		if (inspector) previewHtml += renderGroupInspector(p, inspector.findText, inspector.open);
+		previewHtml += `</div>`;
+	} else {
+		// Show full line context with highlighted match
+		const highlightedBefore = renderHighlightedLine(
+			p.lineContent,
+			p.matchStartInLine,
+			p.matchEndInLine,
+			'background: var(--background-modifier-error); padding: 0 2px; border-radius: 2px;',
+			maxLineLen
+		);
+		const highlightedAfter = renderHighlightedLine(
+			p.lineAfterReplace,
+			p.matchStartInLine,
+			p.matchStartInLine + p.replacementText.length,
+			'background: var(--background-modifier-success); padding: 0 2px; border-radius: 2px;',
+			maxLineLen
+		);
+
+		previewHtml += `<div class="match-card" style="${cardStyle}">`;
+		previewHtml += `<div style="font-size: 0.85em; color: var(--text-muted); margin-bottom: 0.3em;">${checkboxHtml}${selectionLabel}${t('preview.line', { line: p.lineNumber })}</div>`;
+		previewHtml += `<div style="font-family: var(--font-monospace); font-size: 0.9em; line-height: 1.6;">`;
+		previewHtml += `<div style="margin-bottom: 0.2em;"><span style="opacity: 0.6; margin-right: 0.5em;">−</span>${highlightedBefore}</div>`;
+		previewHtml += `<div><span style="opacity: 0.6; margin-right: 0.5em;">+</span>${highlightedAfter}</div>`;
+		previewHtml += `</div>`;
+		if (inspector) previewHtml += renderGroupInspector(p, inspector.findText, inspector.open);
+		previewHtml += `</div>`;
+	}
+	return previewHtml;
+};
+
+// Shows a property value before and after the replacement; removed list items have no new value
+const renderPropertyChangeCard = (property: string, change: PropertyValueChange): string => {
+	let previewHtml = '';
+	previewHtml += `<div class="match-card" style="margin-bottom: 0.8em; padding: 0.5em; border-left: 3px solid var(--interactive-accent); background: var(--background-secondary-alt);">`;
+	previewHtml += `<div style="font-size: 0.85em; color: var(--text-muted); margin-bottom: 0.3em;">${escapeHtml(property)}</div>`;
+	previewHtml += `<div style="font-family: var(--font-monospace); font-size: 0.9em; line-height: 1.6;">`;
+	previewHtml += `<div style="margin-bottom: 0.2em;"><span style="opacity: 0.6; margin-right: 0.5em;">−</span><span style="background: var(--background-modifier-error); padding: 0 2px; border-radius: 2px;">${escapeHtml(truncateWithEllipsis(change.before, 120))}</span></div>`;
+	previewHtml += change.after === ''
+		? `<div style="color: var(--text-muted); font-style: italic;"><span style="opacity: 0.6; margin-right: 0.5em;">+</span>${escapeHtml(t('preview.propertyRemoved'))}</div>`
+		: `<div><span style="opacity: 0.6; margin-right: 0.5em;">+</span><span style="background: var(--background-modifier-success); padding: 0 2px; border-radius: 2px;">${escapeHtml(truncateWithEllipsis(change.after, 120))}</span></div>`;
+	previewHtml += `</div>`;
+	previewHtml += `</div>`;
+	return previewHtml;
+};
+
+const createTextRow = (parentEl: HTMLElement, label: string, placeholder: string, postfix=''): [TextComponent, HTMLDivElement] => {
+	const containerEl = document.createElement('div');
+	containerEl.addClass('row');
+
+	const targetEl = document.createElement('div');
+	targetEl.addClass('input-wrapper');
+
+	const labelEl = document.createElement('div');
+	labelEl.addClass('input-label');
+	labelEl.setText(label);
+
+	const labelEl2 = document.createElement('div');
+	labelEl2.addClass('postfix-label');
+	labelEl2.setText(postfix);
+
+	containerEl.appendChild(labelEl);
+	containerEl.appendChild(targetEl);
+	containerEl.appendChild(labelEl2);
+
+	const component = new TextComponent(targetEl);
+	component.setPlaceholder(placeholder);
+
+	parentEl.append(containerEl);
+	return [component, labelEl2];
+};
+
+const createToggleRow = (parentEl: HTMLElement, label: string, tooltip: string, hide = false): ToggleComponent => {
+	const containerEl = document.createElement('div');
+	containerEl.addClass('row');
+
+	const targetEl = document.createElement('div');
+	targetEl.addClass('row');
+
+	const component = new ToggleComponent(targetEl);
+	component.setTooltip(tooltip);
+
+	const labelEl = document.createElement('div');
+	labelEl.addClass('check-label');
+	labelEl.setText(label);
+
+	containerEl.appendChild(labelEl);
+	containerEl.appendChild(targetEl);
+	if (!hide) parentEl.appendChild(containerEl);
+	return component;
+};
+
+// Clickable regex flags after the find field. g is always on, m and i are toggled in the settings.
+const renderRegexFlags = (container: HTMLElement, settings: RfrPluginSettings, onChange: () => void): void => {
+	container.empty();
+	container.style.fontFamily = 'var(--font-monospace)';
+	container.style.cursor = 'pointer';
+	container.style.userSelect = 'none';
+
+	const slash = document.createElement('span');
+	slash.setText('/');
+	slash.style.opacity = '0.5';
+	container.appendChild(slash);
+
+	const createFlag = (flag: string, enabled: boolean, tooltip: string, onClick: () => void) => {
+		const span = document.createElement('span');
+		span.setText(flag);
+		span.style.opacity = enabled ? '1' : '0.3';
+		span.style.textDecoration = enabled ? 'none' : 'line-through';
+		span.style.padding = '0 1px';
+		span.title = tooltip;
+		span.onclick = (e) => {
+			e.stopPropagation();
+			onClick();
+		};
+		span.onmouseenter = () => { span.style.color = 'var(--interactive-accent)'; };
+		span.onmouseleave = () => { span.style.color = ''; };
+		return span;
+	};
+
+	// g is always on (not clickable)
+	const gSpan = document.createElement('span');
+	gSpan.setText('g');
+	gSpan.title = t('modal.flagGlobal');
+	gSpan.style.opacity = '0.7';
+	container.appendChild(gSpan);
+
+	container.appendChild(createFlag('m', settings.multilineMatch,
+		t('modal.flagMultiline'),
+		() => {
+			settings.multilineMatch = !settings.multilineMatch;
+			onChange();
+		}));
+
+	container.appendChild(createFlag('i', settings.caseInsensitive,
+		t('modal.flagCaseInsensitive'),
+		() => {
+			settings.caseInsensitive = !settings.caseInsensitive;
+			onChange();
+		}));
+};
+
+// A value of a frontmatter property before and after the replacement
+interface PropertyValueChange {
+	before: string;
+	after: string;
+}
+
+// The rewritten property, which replaces the range [from, to) of the note
+interface PropertyEdit {
+	from: number;
+	to: number;
+	text: string;
+	changes: PropertyValueChange[];
+}
 
-		if (updated !== line) {
-			lines[i] = updated;
+// Numbers and booleans stay numbers and booleans if the new value still is one
+const restoreValueType = (original: unknown, value: string): unknown => {
+	if (typeof original === 'number' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+	if (typeof original === 'boolean' && (value === 'true' || value === 'false')) return value === 'true';
+	return value;
+};
+
+// Applies replaceValue to every value of a frontmatter property and writes the property back as YAML,
+// leaving the other properties as they are. List items that become empty are removed.
+// Returns null if the note has no such property.
+const replaceInProperty = async (
+	text: string,
+	property: string,
+	replaceValue: (value: string) => Promise<string>
+): Promise<PropertyEdit | null> => {
+	const range = findPropertyRange(text, property);
+	if (!range) return null;
+
+	const parsed = parseYaml(text.substring(range.from, range.to));
+	const key = parsed && typeof parsed === 'object' ? Object.keys(parsed)[0] : undefined;
+	if (key === undefined) return null;
+
+	const changes: PropertyValueChange[] = [];
+	const replaceItem = async (item: unknown): Promise<unknown> => {
+		if (typeof item !== 'string' && typeof item !== 'number' && typeof item !== 'boolean') return item;
+		const before = String(item);
+		const after = await replaceValue(before);
+		if (after === before) return item;
+		changes.push({ before, after });
+		return restoreValueType(item, after);
+	};
+
+	const value = parsed[key];
+	let newValue: unknown;
+	if (Array.isArray(value)) {
+		const items: unknown[] = [];
+		for (const item of value) {
+			const newItem = await replaceItem(item);
+			if (newItem !== '') items.push(newItem);
 		}
+		newValue = items;
+	} else {
+		newValue = await replaceItem(value);
+		// An empty property is written without a value, like Obsidian does
+		if (newValue === '') newValue = null;
+	}
+
+	if (changes.length === 0) return { from: range.from, to: range.to, text: text.substring(range.from, range.to), changes };
+	return { from: range.from, to: range.to, text: stringifyYaml({ [key]: newValue }).replace(/\n$/, ''), changes };
+};
+
+// Replaces the matches of the search in every value of the property, searching in the match worker
+const replacePropertyValues = (
+	worker: MatchWorker,
+	text: string,
+	property: string,
+	searchString: string,
+	replaceString: string,
+	useRegEx: boolean,
+	regexFlags: string,
+	timeout: number,
+	context: ReplacementContext
+): Promise<PropertyEdit | null> => {
+	return replaceInProperty(text, property, async value => {
+		const matches = await findMatchesInWorker(worker, value, searchString, useRegEx, regexFlags, timeout);
+		return matches.length > 0 ? replaceMatches(value, matches, replaceString, useRegEx, context) : value;
+	});
+};
+
+type LibraryFormat = 'json' | 'yaml';
+
+// Usage statistics stay local, so using a pattern does not change the library file
+const toLibraryEntry = (pattern: RegexPattern) => ({
+	id: pattern.id,
+	name: pattern.name,
+	findText: pattern.findText,
+	replaceText: pattern.replaceText,
+	useRegEx: pattern.useRegEx,
+	caseInsensitive: pattern.caseInsensitive,
+	isPinned: pattern.isPinned,
+	description: pattern.description,
+	tags: pattern.tags,
+	tests: pattern.tests
+});
+
+const serializePatternLibrary = (patterns: RegexPattern[], format: LibraryFormat): string => {
+	// Sorted by name, so the file only changes when the patterns do
+	const library = {
+		patterns: patterns
+			.map(toLibraryEntry)
+			.sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id))
+	};
+	return format === 'json' ? JSON.stringify(library, null, 2) + '\n' : stringifyYaml(library);
+};
+
+const getLibraryFileFormat = (path: string): LibraryFormat | 'markdown' | null => {
+	const extension = path.toLowerCase().split('.').pop();
+	if (extension === 'md') return 'markdown';
+	if (extension === 'json') return 'json';
+	if (extension === 'yaml' || extension === 'yml') return 'yaml';
+	return null;
+};
+
+const formatLibraryFile = (patterns: RegexPattern[], path: string): string => {
+	const format = getLibraryFileFormat(path);
+	if (format !== 'markdown') return serializePatternLibrary(patterns, format === 'json' ? 'json' : 'yaml');
+	return '# Regex patterns\n\n'
+		+ 'Saved patterns of the Regex Find/Replace plugin. Changes to the code block below are loaded by the plugin.\n\n'
+		+ '```yaml\n' + serializePatternLibrary(patterns, 'yaml') + '```\n';
+};
+
+// Reads patterns from JSON, YAML or a Markdown note with a yaml or json code block.
+// Missing ids and names are left empty, they are filled in on import.
+const parsePatternLibrary = (text: string): RegexPattern[] => {
+	const codeBlock = text.match(/^```(?:ya?ml|json)[ \t]*\r?\n([\s\S]*?)^```/m);
+	const source = (codeBlock ? codeBlock[1] : text).trim();
+	let data: unknown;
+	try {
+		data = /^[[{]/.test(source) ? JSON.parse(source) : parseYaml(source);
+	} catch (e) {
+		logger('Could not parse pattern library: ' + e, 0);
+		throw new Error(t('library.invalid'));
 	}
+	const entries = Array.isArray(data) ? data : (data as { patterns?: unknown } | null)?.patterns;
+	if (!Array.isArray(entries)) throw new Error(t('library.invalid'));
+
+	return entries
+		.filter(entry => entry && typeof entry.findText === 'string' && entry.findText !== '')
+		.map((entry: Partial<RegexPattern>): RegexPattern => ({
+			id: typeof entry.id === 'string' ? entry.id : '',
+			name: typeof entry.name === 'string' ? entry.name : '',
+			findText: entry.findText,
+			replaceText: typeof entry.replaceText === 'string' ? entry.replaceText : '',
+			useRegEx: entry.useRegEx !== false,
+			caseInsensitive: entry.caseInsensitive === true,
+			isPinned: entry.isPinned === true,
+			lastUsed: 0,
+			useCount: 0,
+			description: typeof entry.description === 'string' ? entry.description : '',
+			tags: Array.isArray(entry.tags) ? parseTags(entry.tags.join(',')) : [],
+			tests: Array.isArray(entry.tests)
+				? entry.tests
+					.filter(test => test && typeof test.input === 'string')
+					.map(test => ({ input: test.input, expected: typeof test.expected === 'string' ? test.expected : '' }))
+				: []
+		}));
+};
 
-	let trailingFixes = 0;
-	let inFence2 = false;
-	let fenceMarker2 = '';
-	for (let i = 0; i < lines.length; i++) {
-		const line = lines[i];
-		const fenceMatch2 = line.match(/^\s*(```+|~~~+)/);
-		if (fenceMatch2) {
-			const marker = fenceMatch2[1].startsWith('`') ? '```' : '~~~';
-			if (!inFence2) { inFence2 = true; fenceMarker2 = marker; }
-			else if (marker === fenceMarker2) { inFence2 = false; fenceMarker2 = ''; }
+// Tags are entered comma separated, a leading # is optional
+const parseTags = (value: string): string[] => {
+	const tags: string[] = [];
+	value.split(',').forEach(tag => {
+		const name = tag.trim().replace(/^#/, '');
+		if (name && tags.indexOf(name) === -1) tags.push(name);
+	});
+	return tags;
+};
+
+const isSamePattern = (a: RegexPattern, b: RegexPattern): boolean =>
+	a.findText === b.findText &&
+	a.replaceText === b.replaceText &&
+	a.useRegEx === b.useRegEx &&
+	a.caseInsensitive === b.caseInsensitive;
+
+interface PatternTestResult {
+	passed: boolean;
+	actual: string;
+	// Set if the pattern could not be applied at all
+	error: string;
+}
+
+interface DiffLine {
+	type: 'same' | 'removed' | 'added';
+	text: string;
+}
+
+// Line diff between two texts, based on their longest common subsequence of lines
+const diffLines = (before: string, after: string): DiffLine[] => {
+	const a = before.split('\n');
+	const b = after.split('\n');
+	const common: number[][] = [];
+	for (let i = a.length; i >= 0; i--) {
+		common[i] = [];
+		for (let j = b.length; j >= 0; j--) {
+			if (i === a.length || j === b.length) common[i][j] = 0;
+			else if (a[i] === b[j]) common[i][j] = common[i + 1][j + 1] + 1;
+			else common[i][j] = Math.max(common[i + 1][j], common[i][j + 1]);
 		}
-		if (inFence2) { continue; }
-		if (line.endsWith('  ') && !line.endsWith('   ')) { continue; }
-		const trimmed = line.replace(/[ \t]+$/, '');
-		if (trimmed !== line) {
-			lines[i] = trimmed;
-			trailingFixes++;
+	}
+
+	const diff: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length || j < b.length) {
+		if (i < a.length && j < b.length && a[i] === b[j]) {
+			diff.push({ type: 'same', text: a[i++] });
+			j++;
+		} else if (i < a.length && (j === b.length || common[i + 1][j] >= common[i][j + 1])) {
+			diff.push({ type: 'removed', text: a[i++] });
+		} else {
+			diff.push({ type: 'added', text: b[j++] });
 		}
 	}
-	if (trailingFixes > 0) inc('trim_trailing_whitespace', trailingFixes);
+	return diff;
+};
 
-	return { text: lines.join('\n'), stats };
+// Shows the expected output as removed and the actual output as added lines
+const renderTestDiff = (containerEl: HTMLElement, expected: string, actual: string): void => {
+	const diffEl = document.createElement('div');
+	diffEl.addClass('rfr-test-diff');
+	diffLines(expected, actual).forEach(line => {
+		const lineEl = document.createElement('div');
+		lineEl.addClass('rfr-diff-' + line.type);
+		const markerEl = document.createElement('span');
+		markerEl.addClass('rfr-diff-marker');
+		markerEl.setText(line.type === 'removed' ? '−' : line.type === 'added' ? '+' : ' ');
+		lineEl.appendChild(markerEl);
+		lineEl.appendChild(document.createTextNode(line.text.replace(/[ \t]+$/, trailing => trailing.replace(/ /g, '·').replace(/\t/g, '→'))));
+		diffEl.appendChild(lineEl);
+	});
+	containerEl.appendChild(diffEl);
 };
 
 export default class RegexFindReplacePlugin extends Plugin {
 	settings: RfrPluginSettings;
+	// Ids of the pattern and recipe commands added so far
+	registeredCommandIds: string[] = [];
+	// Last content read from or written to the library file, to tell our own writes from edits
+	lastLibraryContent = '';
+
+	generateId(): string {
+		return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+	}
 
 	generatePatternName(findText: string): string {
 		const maxLen = 30;
@@ -308,7 +1089,7 @@ export default class RegexFindReplacePlugin extends Plugin {
 			this.settings.savedPatterns.unshift(pattern);
 		} else {
 			const newPattern: RegexPattern = {
-				id: `${now}-${Math.random().toString(36).substr(2, 9)}`,
+				id: this.generateId(),
 				name: this.generatePatternName(findText),
 				findText,
 				replaceText,
@@ -316,7 +1097,10 @@ export default class RegexFindReplacePlugin extends Plugin {
 				caseInsensitive,
 				isPinned: false,
 				lastUsed: now,
-				useCount: 1
+				useCount: 1,
+				description: '',
+				tags: [],
+				tests: []
 			};
 			this.settings.savedPatterns.unshift(newPattern);
 			this.pruneHistory();
@@ -324,13 +1108,18 @@ export default class RegexFindReplacePlugin extends Plugin {
 		this.saveSettings();
 	}
 
+	// Patterns that are pinned or used by a recipe are kept whatever the history size
+	isProtectedPattern(pattern: RegexPattern): boolean {
+		return pattern.isPinned || this.settings.recipes.some(recipe => recipe.patternIds.indexOf(pattern.id) !== -1);
+	}
+
 	pruneHistory(): void {
-		const pinned = this.settings.savedPatterns.filter(p => p.isPinned);
-		const unpinned = this.settings.savedPatterns.filter(p => !p.isPinned);
+		const kept = this.settings.savedPatterns.filter(p => this.isProtectedPattern(p));
+		const prunable = this.settings.savedPatterns.filter(p => !this.isProtectedPattern(p));
 
-		if (unpinned.length > this.settings.maxHistorySize) {
-			unpinned.sort((a, b) => b.lastUsed - a.lastUsed);
-			this.settings.savedPatterns = [...pinned, ...unpinned.slice(0, this.settings.maxHistorySize)];
+		if (prunable.length > this.settings.maxHistorySize) {
+			prunable.sort((a, b) => b.lastUsed - a.lastUsed);
+			this.settings.savedPatterns = [...kept, ...prunable.slice(0, this.settings.maxHistorySize)];
 		}
 	}
 
@@ -339,689 +1128,3972 @@ export default class RegexFindReplacePlugin extends Plugin {
 		this.saveSettings();
 	}
 
+	duplicatePattern(patternId: string): RegexPattern {
+		const index = this.settings.savedPatterns.findIndex(p => p.id === patternId);
+		const original = this.settings.savedPatterns[index];
+		const copy: RegexPattern = {
+			...original,
+			id: this.generateId(),
+			name: t('manager.copyName', { name: original.name }),
+			isPinned: false,
+			lastUsed: Date.now(),
+			useCount: 0,
+			tags: [...original.tags],
+			tests: original.tests.map(test => ({ ...test }))
+		};
+		this.settings.savedPatterns.splice(index + 1, 0, copy);
+		this.saveSettings();
+		return copy;
+	}
+
 	togglePinPattern(patternId: string): void {
 		const pattern = this.settings.savedPatterns.find(p => p.id === patternId);
 		if (pattern) {
 			pattern.isPinned = !pattern.isPinned;
+			if (pattern.isPinned) this.registerPatternCommand(pattern);
 			this.saveSettings();
 		}
 	}
 
-	async onload() {
-		logger('Loading Plugin...', 9);
-		await this.loadSettings();
+	// Selects every match of the last search within the section and Markdown scope, to edit them all at once
+	async selectAllMatches(editor: Editor): Promise<void> {
+		const searchString = processEscapeSequences(this.settings.findText, this.settings);
+		if (!searchString) {
+			new Notice(t('notice.nothingToSearch'));
+			return;
+		}
 
-		this.addSettingTab(new RegexFindReplaceSettingTab(this.app, this));
+		const text = editor.getValue();
+		const scopeRange = findSectionScopeRange(text, this.settings, editor.posToOffset(editor.getCursor('from')));
+		if (!scopeRange) {
+			new Notice(t('notice.noSection'));
+			return;
+		}
 
+		const worker = new MatchWorker();
+		let matches: TextMatch[];
+		try {
+			matches = await findMatchesInWorker(
+				worker,
+				text.substring(scopeRange.from, scopeRange.to),
+				searchString,
+				this.settings.useRegEx,
+				buildRegexFlags(this.settings),
+				this.settings.matchTimeout * 1000,
+				true
+			);
+		} catch (e) {
+			if (e instanceof MatchAbortedError) {
+				new Notice(t('notice.matchTimeout', { seconds: this.settings.matchTimeout }));
+			} else {
+				logger('Invalid regex pattern: ' + e, 0);
+				new Notice(t('notice.invalidRegex'));
+			}
+			return;
+		} finally {
+			worker.destroy();
+		}
 
-		this.addCommand({
-			id: 'obsidian-regex-replace',
-			name: 'Find and Replace using regular expressions',
-			editorCallback: (editor) => {
-				new FindAndReplaceModal(this.app, editor, this.settings, this).open();
-			},
-		});
+		const excludedRanges = computeExcludedRanges(text, this.settings.markdownScope)
+			.map(r => ({ from: r.from - scopeRange.from, to: r.to - scopeRange.from, reason: r.reason }));
+		const group = this.settings.useRegEx ? this.settings.selectGroup : 0;
+		const count = selectMatchesInEditor(editor, applyMatchScope(matches, excludedRanges).matches, scopeRange.from, group);
+		new Notice(count > 0 ? t('notice.selectedMatches', { count }) : t('notice.noMatch'));
+	}
 
-		this.addCommand({
-			id: 'markdown-fix-formatting',
-			name: 'Markdown: Check and Fix formatting',
-			editorCallback: (editor) => {
-				const doc = editor.getValue();
-				const { text, stats } = fixMarkdownFormatting(doc);
-				if (text !== doc) {
-					editor.setValue(text);
-					const msg = stats
-						.filter(s => s.count > 0)
-						.map(s => {
-							if (s.key === 'heading_duplicate_hashes') return `重复标题井号修复 ${s.count}`;
-							if (s.key === 'heading_cap_to_h6') return `标题级别超过 H6 规范化 ${s.count}`;
-							if (s.key === 'heading_space_normalize') return `标题空格规范化 ${s.count}`;
-							if (s.key === 'list_bullet_space') return `无序列表空格修复 ${s.count}`;
-							if (s.key === 'list_ordered_space') return `有序列表空格修复 ${s.count}`;
-							if (s.key === 'trim_trailing_whitespace') return `行尾空白移除 ${s.count}`;
-							return `${s.key} ${s.count}`;
-						})
-						.join(' · ');
-					new Notice(msg || 'Markdown formatting fixes applied');
-				} else {
-					new Notice('未发现需要修复的 Markdown 格式问题');
-				}
+	// Applies a saved pattern to the selection, or to the whole document if nothing is selected
+	async applyPatternToEditor(editor: Editor, pattern: RegexPattern): Promise<void> {
+		const inSelection = editor.somethingSelected();
+		const scope = inSelection ? t('scope.selection') : t('scope.document');
+		const getTargetText = () => inSelection ? editor.getSelection() : editor.getValue();
+		const targetText = getTargetText();
+		const file = this.app.workspace.getActiveFile();
+
+		const worker = new MatchWorker();
+		let result: { text: string; count: number };
+		try {
+			result = await this.applyPattern(worker, targetText, pattern, createReplacementContext(file ? file.basename : ''));
+		} catch (e) {
+			if (e instanceof MatchAbortedError) {
+				new Notice(t('notice.matchTimeout', { seconds: this.settings.matchTimeout }));
+			} else {
+				logger(`Pattern "${pattern.name}" failed: ` + e, 0);
+				new Notice(t('notice.invalidPattern', { name: pattern.name }));
 			}
-		});
-	}
+			return;
+		} finally {
+			worker.destroy();
+		}
 
-	onunload() {
-		logger('Bye!', 9);
+		if (result.count === 0) {
+			new Notice(t('notice.noMatch'));
+			return;
+		}
+		// The note can be edited while the search runs, the result would undo the edits
+		if (getTargetText() !== targetText) {
+			new Notice(t('notice.textChanged'));
+			return;
+		}
+
+		if (inSelection) editor.replaceSelection(result.text); else replaceNoteText(editor, targetText, result.text);
+		this.savePattern(pattern.findText, pattern.replaceText, pattern.useRegEx, pattern.caseInsensitive);
+		new Notice(t('notice.replacements', { count: result.count, scope }));
 	}
 
-	async loadSettings() {
-		logger('Loading Settings...', 6);
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-		logger('   findVal:         ' + this.settings.findText, 6);
-		logger('   replaceText:     ' + this.settings.replaceText, 6);
-		logger('   caseInsensitive: ' + this.settings.caseInsensitive, 6);
-		logger('   multilineMatch:  ' + this.settings.multilineMatch, 6);
-		logger('   processLineBreak: ' + this.settings.processLineBreak, 6);
+	// The API cannot remove or rename commands, so each command is added once and looks up its pattern or
+	// recipe by id when it runs. A renamed pattern or recipe keeps its old command name until Obsidian is restarted.
+	addCommandOnce(command: Command): void {
+		if (this.registeredCommandIds.indexOf(command.id) !== -1) return;
+		this.registeredCommandIds.push(command.id);
+		this.addCommand(command);
 	}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
+	registerPatternCommand(pattern: RegexPattern): void {
+		this.addCommandOnce({
+			id: `pattern-${pattern.id}`,
+			name: t('command.runPattern', { name: pattern.name }),
+			editorCheckCallback: (checking, editor) => {
+				// Commands cannot be removed, so unpinned or deleted patterns just stop being offered
+				const current = this.settings.savedPatterns.find(p => p.id === pattern.id);
+				if (!current || !current.isPinned || !this.settings.pinnedPatternCommands) return false;
+				if (!checking) this.applyPatternToEditor(editor, current);
+				return true;
+			}
+		});
 	}
 
-}
+	// Runs the sample inputs of a pattern and compares the results with the expected outputs.
+	// A test that times out fails; a run cancelled by a newer one on the same worker is passed on.
+	async runPatternTests(pattern: RegexPattern, worker: MatchWorker): Promise<PatternTestResult[]> {
+		const results: PatternTestResult[] = [];
+		for (const test of pattern.tests) {
+			try {
+				const { text } = await this.applyPattern(worker, test.input, pattern, createReplacementContext(''));
+				results.push({ passed: text === test.expected, actual: text, error: '' });
+			} catch (e) {
+				if (e instanceof MatchAbortedError && e.reason === 'cancelled') throw e;
+				const error = e instanceof MatchAbortedError
+					? t('tests.timeout', { seconds: this.settings.matchTimeout })
+					: String((e as Error).message);
+				results.push({ passed: false, actual: '', error });
+			}
+		}
+		return results;
+	}
 
-class FindAndReplaceModal extends Modal {
-	constructor(app: App, editor: Editor, settings: RfrPluginSettings, plugin: Plugin) {
-		super(app);
-		this.editor = editor;
-		this.settings = settings;
-		this.plugin = plugin;
+	applyPattern(worker: MatchWorker, text: string, pattern: RegexPattern, context: ReplacementContext): Promise<{ text: string; count: number }> {
+		const regexFlags = buildRegexFlags({ ...this.settings, caseInsensitive: pattern.caseInsensitive });
+		return replaceInText(
+			worker,
+			text,
+			processEscapeSequences(pattern.findText, this.settings),
+			processEscapeSequences(pattern.replaceText, this.settings),
+			pattern.useRegEx,
+			regexFlags,
+			this.settings.matchTimeout * 1000,
+			context
+		);
 	}
 
-	settings: RfrPluginSettings;
-	editor: Editor;
-	plugin: Plugin;
+	createRecipe(): RegexRecipe {
+		const recipe: RegexRecipe = {
+			id: this.generateId(),
+			name: t('recipe.defaultName'),
+			patternIds: [],
+			fixFormatting: false
+		};
+		this.settings.recipes.push(recipe);
+		this.registerRecipeCommand(recipe);
+		this.saveSettings();
+		return recipe;
+	}
 
-	onOpen() {
-		const { contentEl, titleEl, editor, modalEl } = this;
+	deleteRecipe(recipeId: string): void {
+		this.settings.recipes = this.settings.recipes.filter(r => r.id !== recipeId);
+		this.saveSettings();
+	}
+
+	addRecipeStep(recipeId: string, patternId: string): void {
+		const recipe = this.settings.recipes.find(r => r.id === recipeId);
+		const pattern = this.settings.savedPatterns.find(p => p.id === patternId);
+		if (!recipe || !pattern) return;
+		recipe.patternIds.push(patternId);
+		this.saveSettings();
+	}
+
+	moveRecipeStep(recipeId: string, index: number, direction: number): void {
+		const recipe = this.settings.recipes.find(r => r.id === recipeId);
+		const target = index + direction;
+		if (!recipe || target < 0 || target >= recipe.patternIds.length) return;
+		const [step] = recipe.patternIds.splice(index, 1);
+		recipe.patternIds.splice(target, 0, step);
+		this.saveSettings();
+	}
+
+	removeRecipeStep(recipeId: string, index: number): void {
+		const recipe = this.settings.recipes.find(r => r.id === recipeId);
+		if (!recipe) return;
+		recipe.patternIds.splice(index, 1);
+		this.saveSettings();
+	}
+
+	// Runs all steps of the recipe on the document and writes the result back as one edit
+	async runRecipe(editor: Editor, recipe: RegexRecipe): Promise<void> {
+		const original = editor.getValue();
+		const file = this.app.workspace.getActiveFile();
+		const context = createReplacementContext(file ? file.basename : '');
+		const report: string[] = [];
+		let text = original;
+
+		const worker = new MatchWorker();
+		try {
+			for (const patternId of recipe.patternIds) {
+				const pattern = this.settings.savedPatterns.find(p => p.id === patternId);
+				if (!pattern) {
+					report.push(t('recipe.missingPattern'));
+					continue;
+				}
+				try {
+					const result = await this.applyPattern(worker, text, pattern, context);
+					text = result.text;
+					report.push(`${pattern.name}: ${result.count}`);
+				} catch (e) {
+					logger(`Recipe step "${pattern.name}" failed: ` + e, 0);
+					new Notice(e instanceof MatchAbortedError
+						? t('notice.matchTimeout', { seconds: this.settings.matchTimeout })
+						: t('recipe.stopped', { recipe: recipe.name, pattern: pattern.name }));
+					return;
+				}
+			}
+		} finally {
+			worker.destroy();
+		}
+		// The note can be edited while the steps run, the result would undo the edits
+		if (editor.getValue() !== original) {
+			new Notice(t('notice.textChanged'));
+			return;
+		}
+
+		if (recipe.fixFormatting) {
+			const fixed = fixMarkdownFormatting(text, this.settings);
+			text = fixed.text;
+			report.push(t('recipe.markdownFixes', { count: fixed.stats.reduce((sum, s) => sum + s.count, 0) }));
+		}
+
+		if (text !== original) replaceNoteText(editor, original, text);
+		new Notice(t('recipe.report', { name: recipe.name, report: report.length > 0 ? report.join(' · ') : t('recipe.noSteps') }));
+	}
+
+	registerRecipeCommand(recipe: RegexRecipe): void {
+		this.addCommandOnce({
+			id: `recipe-${recipe.id}`,
+			name: t('command.runRecipe', { name: recipe.name }),
+			editorCheckCallback: (checking, editor) => {
+				// Commands cannot be removed, so a deleted recipe just stops being offered
+				const current = this.settings.recipes.find(r => r.id === recipe.id);
+				if (!current) return false;
+				if (!checking) this.runRecipe(editor, current);
+				return true;
+			}
+		});
+	}
+
+	// Adds imported patterns to the library, or replaces it. Duplicates of existing patterns are skipped.
+	importPatterns(patterns: RegexPattern[], mode: 'merge' | 'replace'): { added: number, skipped: number } {
+		const library = mode === 'replace' ? [] : [...this.settings.savedPatterns];
+		let added = 0;
+		let skipped = 0;
+		patterns.forEach(pattern => {
+			if (library.some(existing => isSamePattern(existing, pattern))) {
+				skipped++;
+				return;
+			}
+			const imported: RegexPattern = {
+				...pattern,
+				id: pattern.id && !library.some(existing => existing.id === pattern.id) ? pattern.id : this.generateId(),
+				name: pattern.name || this.generatePatternName(pattern.findText)
+			};
+			library.push(imported);
+			added++;
+		});
+		this.settings.savedPatterns = library;
+		this.settings.savedPatterns
+			.filter(pattern => pattern.isPinned)
+			.forEach(pattern => this.registerPatternCommand(pattern));
+		this.saveSettings();
+		return { added, skipped };
+	}
+
+	getLibraryFile(): TFile | null {
+		const path = normalizePath(this.settings.librarySyncPath.trim());
+		const file = this.app.vault.getAbstractFileByPath(path);
+		return file instanceof TFile ? file : null;
+	}
+
+	async writeLibraryFile(): Promise<void> {
+		const path = this.settings.librarySyncPath.trim();
+		if (!path || !getLibraryFileFormat(path)) return;
+
+		const content = formatLibraryFile(this.settings.savedPatterns, path);
+		if (content === this.lastLibraryContent) return;
+		this.lastLibraryContent = content;
+
+		try {
+			const file = this.getLibraryFile();
+			if (file) await this.app.vault.modify(file, content);
+			else await this.app.vault.create(normalizePath(path), content);
+		} catch (e) {
+			logger('Could not write pattern library: ' + e, 0);
+			new Notice(t('library.writeFailed', { path }));
+		}
+	}
+
+	// The library file wins over data.json, usage statistics are kept for patterns with the same id
+	async readLibraryFile(): Promise<void> {
+		const file = this.getLibraryFile();
+		if (!file) return;
+
+		const content = await this.app.vault.read(file);
+		if (content === this.lastLibraryContent) return;
+
+		let patterns: RegexPattern[];
+		try {
+			patterns = parsePatternLibrary(content);
+		} catch (e) {
+			new Notice(t('library.readFailed', { path: file.path }));
+			return;
+		}
+		this.lastLibraryContent = content;
+
+		const previous = this.settings.savedPatterns;
+		this.settings.savedPatterns = [];
+		patterns.forEach(pattern => {
+			const local = previous.find(p => p.id === pattern.id);
+			this.settings.savedPatterns.push({
+				...pattern,
+				id: pattern.id && !this.settings.savedPatterns.some(p => p.id === pattern.id) ? pattern.id : this.generateId(),
+				name: pattern.name || this.generatePatternName(pattern.findText),
+				lastUsed: local ? local.lastUsed : 0,
+				useCount: local ? local.useCount : 0
+			});
+		});
+		this.settings.savedPatterns
+			.filter(pattern => pattern.isPinned)
+			.forEach(pattern => this.registerPatternCommand(pattern));
+		logger(`Loaded ${patterns.length} pattern(s) from ${file.path}`, 8);
+		await this.saveData(this.settings);
+	}
+
+	// Called when the sync path changes: an existing file is loaded, otherwise it is created
+	async startLibrarySync(): Promise<void> {
+		this.lastLibraryContent = '';
+		if (this.getLibraryFile()) await this.readLibraryFile();
+		else await this.writeLibraryFile();
+	}
+
+	async onload() {
+		logger('Loading Plugin...', 9);
+		await this.loadSettings();
+
+		this.addSettingTab(new RegexFindReplaceSettingTab(this.app, this));
+
+
+		this.addCommand({
+			id: 'obsidian-regex-replace',
+			name: t('command.findReplace'),
+			editorCallback: (editor) => {
+				new FindAndReplaceModal(this.app, editor, this).open();
+			},
+		});
+
+		this.registerView(FIND_REPLACE_VIEW_TYPE, (leaf) => new FindReplaceView(leaf, this));
+
+		// Match highlights of CodeMirror 6 editors
+		this.registerEditorExtension([matchHighlightField, trackEditorViews]);
+
+		this.addCommand({
+			id: 'open-find-replace-view',
+			name: t('command.openView'),
+			callback: () => {
+				this.activateView();
+			},
+		});
+
+		this.addCommand({
+			id: 'select-all-matches',
+			name: t('command.selectAllMatches'),
+			editorCallback: (editor) => {
+				this.selectAllMatches(editor);
+			},
+		});
+
+		this.addCommand({
+			id: 'vault-find-replace',
+			name: t('command.vaultFindReplace'),
+			callback: () => {
+				new VaultFindAndReplaceModal(this.app, this.settings, this).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'rename-files',
+			name: t('command.renameFiles'),
+			callback: () => {
+				new RenameFilesModal(this.app, this.settings, this).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'manage-patterns',
+			name: t('command.managePatterns'),
+			callback: () => {
+				new PatternManagerModal(this.app, this).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'run-pattern-tests',
+			name: t('command.runPatternTests'),
+			callback: () => {
+				new PatternTestReportModal(this.app, this).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'apply-saved-pattern',
+			name: t('command.applySavedPattern'),
+			editorCallback: (editor) => {
+				new SavedPatternSuggestModal(this.app, editor, this).open();
+			},
+		});
+
+		this.settings.savedPatterns
+			.filter(pattern => pattern.isPinned)
+			.forEach(pattern => this.registerPatternCommand(pattern));
+		this.settings.recipes.forEach(recipe => this.registerRecipeCommand(recipe));
+
+		this.addCommand({
+			id: 'markdown-check-formatting',
+			name: t('command.checkFormatting'),
+			editorCallback: (editor) => {
+				new FormatIssuesModal(this.app, editor, this.settings).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'markdown-fix-formatting',
+			name: t('command.fixFormatting'),
+			editorCallback: (editor) => {
+				const doc = editor.getValue();
+				const { text, stats } = fixMarkdownFormatting(doc, this.settings);
+				if (text !== doc) {
+					editor.setValue(text);
+					const msg = stats
+						.map(s => `${s.label} ${s.count}`)
+						.join(' · ');
+					new Notice(msg || t('format.applied'));
+				} else {
+					new Notice(t('format.noIssues'));
+				}
+			}
+		});
+
+		// Keep the saved patterns in sync with the library file in the vault
+		this.app.workspace.onLayoutReady(() => this.startLibrarySync());
+		this.registerEvent(this.app.vault.on('modify', (file) => {
+			if (this.settings.librarySyncPath.trim() && file === this.getLibraryFile()) this.readLibraryFile();
+		}));
+	}
+
+	// Opens the find/replace panel in the right sidebar, or shows it if it is already open
+	async activateView(): Promise<void> {
+		let leaf = this.app.workspace.getLeavesOfType(FIND_REPLACE_VIEW_TYPE)[0];
+		if (!leaf) {
+			leaf = this.app.workspace.getRightLeaf(false);
+			await leaf.setViewState({ type: FIND_REPLACE_VIEW_TYPE, active: true });
+		}
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	onunload() {
+		this.app.workspace.detachLeavesOfType(FIND_REPLACE_VIEW_TYPE);
+		logger('Bye!', 9);
+	}
+
+	async loadSettings() {
+		logger('Loading Settings...', 6);
+		// The defaults are copied, so that adding to the lists of the settings does not change DEFAULT_SETTINGS
+		const defaults: RfrPluginSettings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+		this.settings = Object.assign(defaults, await this.loadData());
+		this.settings.markdownScope = Object.assign({}, DEFAULT_SETTINGS.markdownScope, this.settings.markdownScope);
+		this.settings.savedPatterns.forEach(pattern => {
+			pattern.description = pattern.description ?? '';
+			pattern.tags = pattern.tags ?? [];
+			pattern.tests = pattern.tests ?? [];
+		});
+		setLanguage(this.settings.language);
+		logger('   findVal:         ' + this.settings.findText, 6);
+		logger('   replaceText:     ' + this.settings.replaceText, 6);
+		logger('   caseInsensitive: ' + this.settings.caseInsensitive, 6);
+		logger('   multilineMatch:  ' + this.settings.multilineMatch, 6);
+		logger('   processLineBreak: ' + this.settings.processLineBreak, 6);
+	}
+
+	async saveSettings() {
+		await this.saveData(this.settings);
+		await this.writeLibraryFile();
+	}
+
+}
+
+type CodeMirrorEditor = MarkdownSourceView['cmEditor'];
+type CodeMirrorMarker = ReturnType<CodeMirrorEditor['markText']>;
+
+// More highlights make typing in the find field slow on long notes
+const MAX_HIGHLIGHTS = 1000;
+
+interface HighlightRange {
+	from: number;
+	to: number;
+	className: string;
+}
+
+// The CodeMirror 6 editors that are open, to find the one showing the searched note
+const openEditorViews = new Set<EditorView>();
+const trackEditorViews = ViewPlugin.define(view => {
+	openEditorViews.add(view);
+	return { destroy: () => { openEditorViews.delete(view); } };
+});
+
+// Replaces the match highlights of a CodeMirror 6 editor
+const setMatchHighlights = StateEffect.define<HighlightRange[]>();
+
+// The match highlights as decorations; they move along with edits made while find/replace is open
+const matchHighlightField = StateField.define<DecorationSet>({
+	create: () => Decoration.none,
+	update: (highlights, transaction) => {
+		let updated = highlights.map(transaction.changes);
+		transaction.effects.forEach(effect => {
+			if (!effect.is(setMatchHighlights)) return;
+			const docLength = transaction.state.doc.length;
+			updated = Decoration.set(effect.value
+				.filter(range => range.from < range.to && range.to <= docLength)
+				.map(range => Decoration.mark({ class: range.className }).range(range.from, range.to)), true);
+		});
+		return updated;
+	},
+	provide: field => EditorView.decorations.from(field)
+});
+
+// Highlights the matches in the note while find/replace is open. CodeMirror 6 editors get decorations
+// from matchHighlightField; the legacy CodeMirror 5 editor gets its text marked instead.
+class MatchHighlighter {
+	constructor(app: App, editor: Editor) {
+		this.editor = editor;
+		// The side panel searches a note that is not the active view, so the editor is looked up in every leaf
+		const leaf = app.workspace.getLeavesOfType('markdown')
+			.find(l => l.view instanceof MarkdownView && l.view.editor === editor);
+		const markdownView = leaf ? leaf.view as MarkdownView : null;
+		this.view = markdownView ? Array.from(openEditorViews).find(v => v.state.field(editorViewField, false) === markdownView) || null : null;
+		if (this.view) return;
+		const mode = markdownView ? markdownView.currentMode as MarkdownSourceView : null;
+		this.cm = mode && mode.cmEditor && typeof mode.cmEditor.markText === 'function' ? mode.cmEditor : null;
+	}
+
+	editor: Editor;
+	view: EditorView | null = null;
+	cm: CodeMirrorEditor | null = null;
+	// Offsets in the note, the current match is drawn over the others
+	ranges: HighlightRange[] = [];
+	current: HighlightRange | null = null;
+	markers: CodeMirrorMarker[] = [];
+	currentMarker: CodeMirrorMarker | null = null;
+
+	mark(range: HighlightRange): CodeMirrorMarker | null {
+		// Empty matches have no text to mark
+		if (!this.cm || range.from >= range.to) return null;
+		return this.cm.markText(this.editor.offsetToPos(range.from), this.editor.offsetToPos(range.to), { className: range.className });
+	}
+
+	// Offsets are relative to the note; matches left out by the scope are shown dimmed
+	show(matches: { from: number, to: number }[], skipped: { from: number, to: number }[]): void {
+		const toRanges = (list: { from: number, to: number }[], className: string) => list.map(m => ({ from: m.from, to: m.to, className }));
+		this.ranges = toRanges(matches, 'rfr-match-highlight')
+			.concat(toRanges(skipped, 'rfr-match-highlight-skipped'))
+			.slice(0, MAX_HIGHLIGHTS);
+		if (this.view) {
+			this.updateDecorations();
+		} else if (this.cm) {
+			this.cm.operation(() => {
+				this.clearMarkers();
+				this.ranges.forEach(range => {
+					const marker = this.mark(range);
+					if (marker) this.markers.push(marker);
+				});
+			});
+		}
+	}
+
+	// The match visited by step-through mode
+	showCurrent(from: number, to: number): void {
+		this.current = { from, to, className: 'rfr-match-highlight-current' };
+		if (this.view) {
+			this.updateDecorations();
+		} else {
+			if (this.currentMarker) this.currentMarker.clear();
+			this.currentMarker = this.mark(this.current);
+		}
+	}
+
+	clearMatches(): void {
+		this.ranges = [];
+		if (this.view) this.updateDecorations(); else this.clearMarkers();
+	}
+
+	clearCurrent(): void {
+		this.current = null;
+		if (this.view) {
+			this.updateDecorations();
+		} else {
+			if (this.currentMarker) this.currentMarker.clear();
+			this.currentMarker = null;
+		}
+	}
+
+	clear(): void {
+		if (this.cm) {
+			this.cm.operation(() => {
+				this.clearMatches();
+				this.clearCurrent();
+			});
+			return;
+		}
+		this.ranges = [];
+		this.current = null;
+		if (this.view) this.updateDecorations();
+	}
+
+	clearMarkers(): void {
+		this.markers.forEach(marker => marker.clear());
+		this.markers = [];
+	}
+
+	updateDecorations(): void {
+		this.view.dispatch({ effects: setMatchHighlights.of(this.current ? this.ranges.concat([this.current]) : this.ranges) });
+	}
+}
+
+// What the find/replace form needs from the modal or the side panel that shows it
+interface FindReplaceHost {
+	// The note that is searched, null when there is none
+	getEditor(): Editor | null;
+	getFile(): TFile | null;
+	// The modal closes when a replacement is done; without it the form stays open for the next run
+	close?: () => void;
+}
+
+// The find/replace form shown by the modal and by the side panel: the fields, the scope controls,
+// the preview with its checkboxes and group inspectors, step-through mode and Replace All.
+class FindReplaceForm {
+	constructor(app: App, plugin: RegexFindReplacePlugin, host: FindReplaceHost) {
+		this.app = app;
+		this.plugin = plugin;
+		this.settings = plugin.settings;
+		this.host = host;
+	}
+
+	app: App;
+	plugin: RegexFindReplacePlugin;
+	settings: RfrPluginSettings;
+	host: FindReplaceHost;
+	// Separate workers, so that stepping or replacing does not cancel the search of the preview
+	previewWorker = new MatchWorker();
+	matchWorker = new MatchWorker();
+	highlighter: MatchHighlighter | null = null;
+	// Set up by render. The panel calls them when it searches another note, when the selection
+	// or the cursor of the note may have moved, and when the note is edited.
+	noteChanged: () => void = () => undefined;
+	selectionChanged: () => void = () => undefined;
+	noteEdited: () => void = () => undefined;
+
+	// Controls go into controlsEl, the preview into previewParentEl; the panel passes the same element twice
+	render(controlsEl: HTMLElement, previewParentEl: HTMLElement): void {
+		const rowClass = 'row';
+		const divClass = 'div';
+		const getEditor = () => this.host.getEditor();
+
+		// Remember the selected ranges in document order, stepping through matches moves the editor selection
+		let selectionRanges: { from: number, to: number }[] = [];
+		// Sections at the cursor are the ones around where it was when the note was taken up
+		let cursorOffset = 0;
+		// The selections and the text of the note as last seen or set by the form, to tell them from changes made in the note
+		let knownSelections = '';
+		let knownText = '';
+		let writingNote = false;
+
+		const readSelections = (editor: Editor) => editor.listSelections()
+			.map(selection => {
+				const anchor = editor.posToOffset(selection.anchor);
+				const head = editor.posToOffset(selection.head);
+				return { from: Math.min(anchor, head), to: Math.max(anchor, head) };
+			})
+			.filter(range => range.from < range.to)
+			.sort((a, b) => a.from - b.from);
+		const getSelectionsKey = (editor: Editor) => JSON.stringify([editor.posToOffset(editor.getCursor('from')), readSelections(editor)]);
+		const readNoteState = () => {
+			const editor = getEditor();
+			selectionRanges = editor ? readSelections(editor) : [];
+			cursorOffset = editor ? editor.posToOffset(editor.getCursor('from')) : 0;
+			knownSelections = editor ? getSelectionsKey(editor) : '';
+			knownText = editor ? editor.getValue() : '';
+			logger('No text selected?: ' + (selectionRanges.length === 0), 9);
+		};
+		// Selections and text set by the form are its own, they do not restart the search
+		const rememberOwnSelections = (editor: Editor) => {
+			knownSelections = getSelectionsKey(editor);
+		};
+		const writeNote = (editor: Editor, write: () => void) => {
+			writingNote = true;
+			try {
+				write();
+			} finally {
+				writingNote = false;
+			}
+			knownText = editor.getValue();
+		};
+		// The note can be edited, or another note taken up, while a search runs; its matches are out of date then
+		const noteChangedSince = (editor: Editor, text: string) => getEditor() !== editor || editor.getValue() !== text;
+
+		const bindNote = () => {
+			const editor = getEditor();
+			if (this.highlighter) this.highlighter.clear();
+			this.highlighter = editor ? new MatchHighlighter(this.app, editor) : null;
+			readNoteState();
+		};
+		bindNote();
+
+		const hasSelection = () => selectionRanges.length > 0;
+		const inSelectionScope = () => selToggleComponent.getValue() && hasSelection();
+
+		// The searched part of the note: the chosen section or the whole note, null if the section is missing.
+		// Selections are searched within the whole note, so that their matches keep their offsets in the note.
+		const getScopeRange = (editor: Editor): SectionRange | null => {
+			if (inSelectionScope()) return { from: 0, to: editor.getValue().length };
+			return findSectionScopeRange(editor.getValue(), this.settings, cursorOffset);
+		};
+		const getScopeText = (editor: Editor, range: SectionRange) => editor.getValue().substring(range.from, range.to);
+		const getScopeLabel = (range: SectionRange | null) => {
+			if (inSelectionScope()) return selectionRanges.length > 1 ? t('scope.selections', { count: selectionRanges.length }) : t('scope.selection');
+			return getSectionScopeLabel(range, this.settings);
+		};
+		const getReplacementContext = () => {
+			const file = this.host.getFile();
+			return createReplacementContext(file ? file.basename : '');
+		};
+		// Matches within the Markdown scope; the excluded parts are always computed on the whole note
+		const findScopedMatches = async (
+			editor: Editor,
+			targetText: string,
+			targetOffset: number,
+			searchString: string,
+			worker = this.matchWorker,
+			withGroupPositions = false
+		): Promise<{ matches: TextMatch[], skipped: SkippedMatch[] }> => {
+			const search = (text: string) => findMatchesInWorker(
+				worker,
+				text,
+				searchString,
+				regToggleComponent.getValue(),
+				buildRegexFlags(this.settings),
+				this.settings.matchTimeout * 1000,
+				withGroupPositions
+			);
+			const noteText = editor.getValue();
+			let matches: TextMatch[] = [];
+			if (inSelectionScope()) {
+				// Each selection is searched on its own, so that ^ and $ match at its edges
+				for (const range of selectionRanges) {
+					const rangeFrom = range.from - targetOffset;
+					const rangeMatches = await search(targetText.substring(rangeFrom, range.to - targetOffset));
+					matches = matches.concat(offsetTextMatches(targetText, rangeMatches, { from: rangeFrom, to: range.to - targetOffset }));
+				}
+			} else {
+				matches = await search(targetText);
+			}
+			const excludedRanges = computeExcludedRanges(noteText, this.settings.markdownScope)
+				.map(r => ({ from: r.from - targetOffset, to: r.to - targetOffset, reason: r.reason }));
+			return applyMatchScope(matches, excludedRanges);
+		};
+		// A cancelled search was replaced by a newer one, which reports its own result
+		const reportMatchError = (e: Error) => {
+			if (e instanceof MatchAbortedError) {
+				if (e.reason === 'timeout') new Notice(t('notice.matchTimeout', { seconds: this.settings.matchTimeout }));
+				return;
+			}
+			logger('Invalid regex pattern: ' + e, 0);
+			new Notice(t('notice.invalidRegex'));
+		};
+		// In property mode only the values of one frontmatter property are replaced, whatever is selected
+		const isPropertyMode = () => this.settings.markdownScope.restrictTo === 'property';
+		const findPropertyEdit = (editor: Editor, searchString: string, replaceString: string, worker = this.matchWorker): Promise<PropertyEdit | null> => {
+			return replacePropertyValues(
+				worker,
+				editor.getValue(),
+				this.settings.markdownScope.property,
+				searchString,
+				replaceString,
+				regToggleComponent.getValue(),
+				buildRegexFlags(this.settings),
+				this.settings.matchTimeout * 1000,
+				getReplacementContext()
+			);
+		};
+		// A valid pattern that still fails means the property is not valid YAML
+		const reportPropertyError = (e: Error) => {
+			if (e instanceof MatchAbortedError || !patternIsValid) {
+				reportMatchError(e);
+				return;
+			}
+			logger('Could not parse frontmatter property: ' + e, 0);
+			new Notice(t('notice.invalidProperty', { property: this.settings.markdownScope.property.trim() }));
+		};
+		// Replaces in every selection with one edit and keeps the selections around the new text
+		const replaceInSelections = (editor: Editor, edits: TextEdit[]) => {
+			writeNote(editor, () => editor.transaction({
+				changes: edits.map(edit => ({ from: editor.offsetToPos(edit.from), to: editor.offsetToPos(edit.to), text: edit.text }))
+			}));
+			selectionRanges = selectionRanges.map(range => mapRangeThroughEdits(range, edits));
+			editor.setSelections(selectionRanges.map(range => ({ anchor: editor.offsetToPos(range.from), head: editor.offsetToPos(range.to) })));
+			rememberOwnSelections(editor);
+		};
+		// The whole note is set at once, a section of it is replaced as a range
+		const replaceScopeMatches = (editor: Editor, range: SectionRange, targetText: string, matches: TextMatch[], replaceString: string, useRegEx: boolean) => {
+			if (inSelectionScope()) {
+				replaceInSelections(editor, buildMatchEdits(targetText, matches, replaceString, useRegEx, getReplacementContext()));
+				return;
+			}
+			const output = replaceMatches(targetText, matches, replaceString, useRegEx, getReplacementContext());
+			writeNote(editor, () => {
+				if (range.from === 0 && range.to === editor.getValue().length) editor.setValue(output);
+				else editor.replaceRange(output, editor.offsetToPos(range.from), editor.offsetToPos(range.to));
+			});
+		};
+
+		let findInputComponent: TextComponent;
+		let replaceWithInputComponent: TextComponent;
+		let regToggleComponent: ToggleComponent;
+
+		const addTextComponent = (label: string, placeholder: string, postfix=''): [TextComponent, HTMLDivElement] => {
+			return createTextRow(controlsEl, label, placeholder, postfix);
+		};
+
+		// Create interactive regex flags component
+		const createFlagsComponent = (container: HTMLDivElement) => {
+			renderRegexFlags(container, this.settings, () => {
+				this.plugin.saveData(this.settings);
+				updateFlagsDisplay();
+				resetMatchState();
+				updateDiagnostics();
+				updatePreview();
+			});
+		};
+
+		let flagsContainer: HTMLDivElement;
+		const updateFlagsDisplay = () => {
+			if (flagsContainer && regToggleComponent?.getValue()) {
+				createFlagsComponent(flagsContainer);
+			} else if (flagsContainer) {
+				flagsContainer.empty();
+			}
+		};
+
+		const addToggleComponent = (label: string, tooltip: string): ToggleComponent => {
+			return createToggleRow(controlsEl, label, tooltip);
+		};
+
+		// Create saved patterns dropdown, it is hidden while there are none
+		const patternContainerEl = document.createElement(divClass);
+		patternContainerEl.addClass(rowClass);
+
+		const patternLabelEl = document.createElement(divClass);
+		patternLabelEl.addClass('input-label');
+		patternLabelEl.setText(t('label.saved'));
+
+		const patternDropdownEl = document.createElement(divClass);
+		patternDropdownEl.addClass('input-wrapper');
+
+		const patternDropdownComponent = new DropdownComponent(patternDropdownEl);
+		patternContainerEl.appendChild(patternLabelEl);
+		patternContainerEl.appendChild(patternDropdownEl);
+		controlsEl.appendChild(patternContainerEl);
+
+		// Patterns are saved and edited while the panel stays open, so the list is filled again on focus
+		const fillSavedPatterns = () => {
+			patternDropdownComponent.selectEl.empty();
+			patternDropdownComponent.addOption('', t('placeholder.selectPattern'));
+			[...this.settings.savedPatterns]
+				.sort((a, b) => {
+					if (a.isPinned !== b.isPinned) return a.isPinned ? -1 : 1;
+					return b.lastUsed - a.lastUsed;
+				})
+				.forEach(pattern => {
+					const prefix = pattern.isPinned ? '⭐ ' : '';
+					patternDropdownComponent.addOption(pattern.id, `${prefix}${pattern.name}`);
+				});
+			patternDropdownComponent.setValue('');
+			patternContainerEl.style.display = this.settings.savedPatterns.length > 0 ? '' : 'none';
+		};
+		fillSavedPatterns();
+		patternDropdownComponent.selectEl.addEventListener('focus', fillSavedPatterns);
+
+		patternDropdownComponent.onChange((patternId) => {
+			const pattern = this.settings.savedPatterns.find(p => p.id === patternId);
+			if (!pattern) return;
+			findInputComponent.setValue(pattern.findText);
+			replaceWithInputComponent.setValue(pattern.replaceText);
+			regToggleComponent.setValue(pattern.useRegEx);
+			updateFlagsDisplay();
+			resetMatchState();
+			updateDiagnostics();
+			updatePreview();
+			logger('Loaded saved pattern: ' + pattern.name, 9);
+		});
+
+		// Create input fields
+		const escapeHints = [];
+		if (this.settings.processLineBreak) escapeHints.push('\\n=LF');
+		if (this.settings.processTab) escapeHints.push('\\t=TAB');
+		const escapeHintText = escapeHints.length > 0 ? escapeHints.join(' ') : '';
+
+		const findRow = addTextComponent(t('label.find'), t('placeholder.find'));
+		findInputComponent = findRow[0];
+		flagsContainer = findRow[1];
+		if (this.settings.useRegEx) {
+			createFlagsComponent(flagsContainer);
+		}
+		const replaceRow = addTextComponent(t('label.replace'), t('placeholder.replace'), escapeHintText);
+		replaceWithInputComponent = replaceRow[0];
+
+		// Errors and warnings about the find and replace fields
+		const diagnosticsEl = document.createElement(divClass);
+		diagnosticsEl.addClass('regex-diagnostics');
+		diagnosticsEl.style.display = 'none';
+		controlsEl.appendChild(diagnosticsEl);
+		let patternIsValid = true;
+
+		const highlightFindInput = attachRegexHighlighter(findInputComponent.inputEl);
+
+		// Plain-language breakdown of the find pattern
+		const explanationDetailsEl = document.createElement('details');
+		explanationDetailsEl.addClass('regex-explanation');
+		explanationDetailsEl.open = true;
+		const explanationSummaryEl = document.createElement('summary');
+		explanationSummaryEl.setText(t('explain.title'));
+		explanationDetailsEl.appendChild(explanationSummaryEl);
+		const explanationContentEl = document.createElement(divClass);
+		explanationDetailsEl.appendChild(explanationContentEl);
+		controlsEl.appendChild(explanationDetailsEl);
+
+		// Create and show regular expression toggle switch
+		regToggleComponent = addToggleComponent(t('toggle.useRegex'), t('toggle.useRegexTooltip'));
+
+		// Create selection toggle switch, it is only shown while any text is selected
+		const selToggleComponent = addToggleComponent(t('modal.selectionOnly'), t('modal.selectionOnlyTooltip'));
+		const selToggleRowEl = selToggleComponent.toggleEl.parentElement.parentElement;
+
+		// Create section scope selector, a selection takes precedence over it
+		const sectionContainerEl = document.createElement(divClass);
+		sectionContainerEl.addClass(rowClass);
+		const sectionLabelEl = document.createElement(divClass);
+		sectionLabelEl.addClass('check-label');
+		sectionLabelEl.setText(t('section.searchIn'));
+		const sectionDropdownEl = document.createElement(divClass);
+		const sectionDropdownComponent = new DropdownComponent(sectionDropdownEl);
+		sectionDropdownComponent.addOption('document', t('section.document'));
+		sectionDropdownComponent.addOption('section', t('section.section'));
+		sectionDropdownComponent.addOption('sectionOnly', t('section.sectionOnly'));
+		sectionDropdownComponent.addOption('block', t('section.block'));
+		sectionDropdownComponent.addOption('heading', t('section.heading'));
+		sectionDropdownComponent.addOption('markers', t('section.markers'));
+		sectionContainerEl.appendChild(sectionLabelEl);
+		sectionContainerEl.appendChild(sectionDropdownEl);
+		controlsEl.appendChild(sectionContainerEl);
+
+		// Headings of the note to choose the section from
+		const headingContainerEl = document.createElement(divClass);
+		headingContainerEl.addClass(rowClass);
+		const headingLabelEl = document.createElement(divClass);
+		headingLabelEl.addClass('check-label');
+		headingLabelEl.setText(t('section.headingLabel'));
+		const headingDropdownEl = document.createElement(divClass);
+		const headingDropdownComponent = new DropdownComponent(headingDropdownEl);
+		const fillHeadings = () => {
+			const editor = getEditor();
+			const headings = editor ? findHeadings(editor.getValue()) : [];
+			headingDropdownComponent.selectEl.empty();
+			headings.forEach(h => headingDropdownComponent.addOption(h.text, '#'.repeat(h.level) + ' ' + h.text));
+			if (headings.length === 0) headingDropdownComponent.addOption('', t('section.noHeadings'));
+			if (headings.length > 0 && !headings.some(h => h.text === this.settings.sectionHeading)) {
+				this.settings.sectionHeading = headings[0].text;
+			}
+			headingDropdownComponent.setValue(this.settings.sectionHeading);
+		};
+		fillHeadings();
+		headingContainerEl.appendChild(headingLabelEl);
+		headingContainerEl.appendChild(headingDropdownEl);
+		controlsEl.appendChild(headingContainerEl);
+
+		const [startMarkerComponent, startMarkerPostfixEl] = createTextRow(controlsEl, t('section.startMarker'), t('section.startMarkerPlaceholder'));
+		const [endMarkerComponent, endMarkerPostfixEl] = createTextRow(controlsEl, t('section.endMarker'), t('section.endMarkerPlaceholder'));
+
+		const updateSectionRows = () => {
+			const inSelection = inSelectionScope();
+			selToggleRowEl.style.display = hasSelection() ? '' : 'none';
+			sectionDropdownComponent.setDisabled(inSelection);
+			sectionContainerEl.style.opacity = inSelection ? '0.5' : '';
+			headingContainerEl.style.display = !inSelection && this.settings.sectionScope === 'heading' ? '' : 'none';
+			const markersDisplay = !inSelection && this.settings.sectionScope === 'markers' ? '' : 'none';
+			startMarkerPostfixEl.parentElement.style.display = markersDisplay;
+			endMarkerPostfixEl.parentElement.style.display = markersDisplay;
+		};
+
+		const onSectionChanged = () => {
+			this.plugin.saveData(this.settings);
+			updateSectionRows();
+			resetMatchState();
+			requestPreview();
+		};
+
+		sectionDropdownComponent.setValue(this.settings.sectionScope);
+		sectionDropdownComponent.onChange((value) => {
+			this.settings.sectionScope = value as SectionScope;
+			onSectionChanged();
+		});
+		headingDropdownComponent.onChange((value) => {
+			this.settings.sectionHeading = value;
+			onSectionChanged();
+		});
+		startMarkerComponent.setValue(this.settings.sectionStartMarker);
+		startMarkerComponent.inputEl.addEventListener('input', () => {
+			this.settings.sectionStartMarker = startMarkerComponent.getValue();
+			onSectionChanged();
+		});
+		endMarkerComponent.setValue(this.settings.sectionEndMarker);
+		endMarkerComponent.inputEl.addEventListener('input', () => {
+			this.settings.sectionEndMarker = endMarkerComponent.getValue();
+			onSectionChanged();
+		});
+
+		// Create Markdown scope options
+		const scopeDetailsEl = document.createElement('details');
+		scopeDetailsEl.addClass('markdown-scope');
+		const scopeSummaryEl = document.createElement('summary');
+		scopeDetailsEl.appendChild(scopeSummaryEl);
+		controlsEl.appendChild(scopeDetailsEl);
+
+		const updateScopeSummary = () => {
+			const scopeOptions = this.settings.markdownScope;
+			const activeCount = [
+				scopeOptions.skipCodeBlocks,
+				scopeOptions.skipInlineCode,
+				scopeOptions.skipFrontmatter,
+				scopeOptions.skipLinkTargets,
+				scopeOptions.skipHtmlComments,
+				scopeOptions.restrictTo !== 'all'
+			].filter(active => active).length;
+			scopeSummaryEl.setText(activeCount > 0 ? t('scope.titleActive', { count: activeCount }) : t('scope.title'));
+		};
+
+		const onScopeChanged = () => {
+			this.plugin.saveData(this.settings);
+			updateScopeSummary();
+			resetMatchState();
+			updatePreview();
+		};
+
+		const addScopeToggle = (label: string, tooltip: string, key: 'skipCodeBlocks' | 'skipInlineCode' | 'skipFrontmatter' | 'skipLinkTargets' | 'skipHtmlComments') => {
+			const component = createToggleRow(scopeDetailsEl, label, tooltip);
+			component.setValue(this.settings.markdownScope[key]);
+			component.onChange((value) => {
+				this.settings.markdownScope[key] = value;
+				onScopeChanged();
+			});
+		};
+
+		addScopeToggle(t('scope.skipCodeBlocks'), t('scope.skipCodeBlocksTooltip'), 'skipCodeBlocks');
+		addScopeToggle(t('scope.skipInlineCode'), t('scope.skipInlineCodeTooltip'), 'skipInlineCode');
+		addScopeToggle(t('scope.skipFrontmatter'), t('scope.skipFrontmatterTooltip'), 'skipFrontmatter');
+		addScopeToggle(t('scope.skipLinkTargets'), t('scope.skipLinkTargetsTooltip'), 'skipLinkTargets');
+		addScopeToggle(t('scope.skipHtmlComments'), t('scope.skipHtmlCommentsTooltip'), 'skipHtmlComments');
+
+		const restrictContainerEl = document.createElement(divClass);
+		restrictContainerEl.addClass(rowClass);
+		const restrictLabelEl = document.createElement(divClass);
+		restrictLabelEl.addClass('check-label');
+		restrictLabelEl.setText(t('scope.onlyMatchIn'));
+		const restrictDropdownEl = document.createElement(divClass);
+		const restrictDropdownComponent = new DropdownComponent(restrictDropdownEl);
+		restrictDropdownComponent.addOption('all', t('scope.all'));
+		restrictDropdownComponent.addOption('headings', t('scope.headings'));
+		restrictDropdownComponent.addOption('frontmatter', t('scope.frontmatter'));
+		restrictDropdownComponent.addOption('property', t('scope.property'));
+		restrictDropdownComponent.setValue(this.settings.markdownScope.restrictTo);
+		restrictDropdownComponent.onChange((value) => {
+			this.settings.markdownScope.restrictTo = value as ScopeRestriction;
+			updatePropertyRow();
+			onScopeChanged();
+		});
+		restrictContainerEl.appendChild(restrictLabelEl);
+		restrictContainerEl.appendChild(restrictDropdownEl);
+		scopeDetailsEl.appendChild(restrictContainerEl);
+
+		const [propertyInputComponent, propertyPostfixEl] = createTextRow(scopeDetailsEl, t('scope.propertyName'), t('scope.propertyPlaceholder'));
+		propertyInputComponent.setValue(this.settings.markdownScope.property);
+		propertyInputComponent.inputEl.addEventListener('input', () => {
+			this.settings.markdownScope.property = propertyInputComponent.getValue();
+			this.plugin.saveData(this.settings);
+			requestPreview();
+		});
+		const updatePropertyRow = () => {
+			propertyPostfixEl.parentElement.style.display = isPropertyMode() ? '' : 'none';
+		};
+		updatePropertyRow();
+
+		updateScopeSummary();
+
+		// Create preview section, it is added after the buttons
+		const previewContainerEl = document.createElement(divClass);
+		previewContainerEl.addClass('preview-container');
+		previewContainerEl.style.height = '100%';
+		previewContainerEl.style.display = 'flex';
+		previewContainerEl.style.flexDirection = 'column';
+
+		const previewTitleEl = document.createElement(divClass);
+		previewTitleEl.addClass('preview-title');
+		previewTitleEl.style.fontWeight = 'bold';
+		previewTitleEl.style.marginBottom = '0.5em';
+		previewTitleEl.style.fontSize = '1.1em';
+		previewTitleEl.style.paddingBottom = '0.5em';
+		previewTitleEl.style.borderBottom = '1px solid var(--background-modifier-border)';
+
+		const previewContentEl = document.createElement(divClass);
+		previewContentEl.addClass('preview-content');
+		previewContentEl.style.fontSize = '0.9em';
+		previewContentEl.style.flex = '1';
+		previewContentEl.style.overflowY = 'auto';
+		previewContentEl.style.padding = '0.5em';
+		previewContentEl.style.backgroundColor = 'var(--background-secondary)';
+		previewContentEl.style.borderRadius = '4px';
+		previewContentEl.style.marginTop = '0.5em';
+
+		previewContainerEl.appendChild(previewTitleEl);
+		previewContainerEl.appendChild(previewContentEl);
+
+		let currentPreviewLimit = this.settings.previewLimit;
+
+		// Matches unchecked in the preview, identified by their offsets in the searched text
+		let excludedMatches: { from: number, to: number }[] = [];
+		const isExcludedMatch = (from: number, to: number) => {
+			return excludedMatches.some(r => r.from === from && r.to === to);
+		};
+		// Matches whose capture groups are expanded in the preview
+		let inspectedMatches: { from: number, to: number }[] = [];
+		const isInspectedMatch = (from: number, to: number) => {
+			return inspectedMatches.some(r => r.from === from && r.to === to);
+		};
+
+		const clearPreview = (title: string) => {
+			previewTitleEl.setText(title);
+			previewContentEl.setText('');
+			if (this.highlighter) this.highlighter.clearMatches();
+		};
+
+		// Shows the property values that change instead of the lines of the note
+		const updatePropertyPreview = async (editor: Editor, searchString: string, replaceString: string) => {
+			const property = this.settings.markdownScope.property.trim();
+			if (!property) {
+				previewTitleEl.setText(t('preview.enterProperty'));
+				previewContentEl.setText('');
+				return;
+			}
+
+			let edit: PropertyEdit | null;
+			const searchingTimer = window.setTimeout(() => previewTitleEl.setText(t('preview.searching')), 300);
+			try {
+				edit = await findPropertyEdit(editor, searchString, replaceString, this.previewWorker);
+			} catch (e) {
+				if (e instanceof MatchAbortedError) {
+					if (e.reason === 'timeout') {
+						previewTitleEl.setText(t('preview.timeout', { seconds: this.settings.matchTimeout }));
+						previewContentEl.setText('');
+					}
+					return;
+				}
+				logger('Could not replace in property: ' + e, 0);
+				previewTitleEl.setText(patternIsValid ? t('preview.invalidProperty', { property }) : t('preview.invalidRegex'));
+				previewContentEl.setText('');
+				return;
+			} finally {
+				window.clearTimeout(searchingTimer);
+			}
+
+			if (!edit) {
+				previewTitleEl.setText(t('preview.noProperty', { property }));
+				previewContentEl.setText('');
+			} else if (edit.changes.length === 0) {
+				previewTitleEl.setText(t('preview.noMatches'));
+				previewContentEl.setText('');
+			} else {
+				previewTitleEl.setText(t('preview.propertyChanges', { count: edit.changes.length, property }));
+				previewContentEl.innerHTML = edit.changes.map(change => renderPropertyChangeCard(property, change)).join('');
+			}
+		};
+
+		const updatePreview = async (keepLimit = false) => {
+			if (!this.settings.showPreview) return;
+
+			const editor = getEditor();
+			const searchString = processEscapeSequences(findInputComponent.getValue(), this.settings);
+			const replaceString = processEscapeSequences(replaceWithInputComponent.getValue(), this.settings);
+
+			if (!editor) {
+				clearPreview(t('view.noNote'));
+				return;
+			}
+			if (!searchString) {
+				clearPreview(t('preview.enterSearch'));
+				currentPreviewLimit = this.settings.previewLimit;
+				return;
+			}
+
+			// Reset limit when inputs change (unless explicitly keeping it)
+			if (!keepLimit) {
+				currentPreviewLimit = this.settings.previewLimit;
+			}
+
+			if (isPropertyMode()) {
+				if (this.highlighter) this.highlighter.clearMatches();
+				await updatePropertyPreview(editor, searchString, replaceString);
+				return;
+			}
+
+			const scopeRange = getScopeRange(editor);
+			if (!scopeRange) {
+				clearPreview(t('preview.noSection'));
+				return;
+			}
+			const targetText = getScopeText(editor, scopeRange);
+
+			let matches: TextMatch[] = [];
+			let skipped: SkippedMatch[] = [];
+			let invalidPattern = false;
+			// Only slow searches get a notice, so the title does not flicker while typing
+			const searchingTimer = window.setTimeout(() => previewTitleEl.setText(t('preview.searching')), 300);
+			try {
+				({ matches, skipped } = await findScopedMatches(editor, targetText, scopeRange.from, searchString, this.previewWorker, true));
+			} catch (e) {
+				if (e instanceof MatchAbortedError) {
+					if (e.reason === 'timeout') clearPreview(t('preview.timeout', { seconds: this.settings.matchTimeout }));
+					return;
+				}
+				logger('Invalid regex pattern: ' + e, 0);
+				invalidPattern = true;
+			} finally {
+				window.clearTimeout(searchingTimer);
+			}
+			// The note was switched while searching, the search of the new note updates the preview
+			if (getEditor() !== editor) return;
+			const toNoteRange = (m: TextMatch) => ({ from: scopeRange.from + m.from, to: scopeRange.from + m.to });
+			if (this.highlighter) this.highlighter.show(matches.map(toNoteRange), skipped.map(s => toNoteRange(s.match)));
+			const totalCount = matches.length;
+			const previews = generateMatchPreviews(
+				targetText,
+				matches,
+				replaceString,
+				regToggleComponent.getValue(),
+				Math.min(currentPreviewLimit, 50), // Cap at 50 to prevent performance issues
+				getReplacementContext(),
+				skipped,
+				m => isExcludedMatch(m.from, m.to)
+			);
+			if (inSelectionScope() && selectionRanges.length > 1) {
+				previews.forEach(p => {
+					p.selection = selectionRanges.findIndex(range => p.from >= range.from && p.from <= range.to) + 1;
+				});
+			}
+
+			if (totalCount === 0 && skipped.length === 0) {
+				previewTitleEl.setText(invalidPattern ? t('preview.invalidRegex') : t('preview.noMatches'));
+				previewContentEl.setText('');
+			} else {
+				const scope = getScopeLabel(scopeRange);
+				const updatePreviewTitle = () => {
+					let title = t(totalCount === 1 ? 'preview.matchOne' : 'preview.matchMany', { count: totalCount, scope });
+					if (excludedMatches.length > 0) title += t('preview.selected', { count: Math.max(totalCount - excludedMatches.length, 0) });
+					if (skipped.length > 0) title += t('preview.skippedCount', { count: skipped.length });
+					previewTitleEl.setText(title);
+				};
+				updatePreviewTitle();
+
+				let previewHtml = '';
+				const inspectedText = regToggleComponent.getValue() ? findInputComponent.getValue() : '';
+				previews.forEach(p => {
+					previewHtml += renderPreviewCard(
+						p,
+						{ checked: !isExcludedMatch(p.from, p.to) },
+						inspectedText ? { findText: inspectedText, open: isInspectedMatch(p.from, p.to) } : undefined
+					);
+				});
+
+				previewContentEl.innerHTML = previewHtml;
+
+				// Keep the group inspectors open while the preview is updated
+				previewContentEl.querySelectorAll('details.rfr-group-inspector').forEach(el => {
+					const details = el as HTMLDetailsElement;
+					const from = parseInt(details.dataset.from ?? '');
+					const to = parseInt(details.dataset.to ?? '');
+					details.addEventListener('toggle', () => {
+						inspectedMatches = inspectedMatches.filter(r => r.from !== from || r.to !== to);
+						if (details.open) inspectedMatches.push({ from, to });
+					});
+				});
+
+				previewContentEl.querySelectorAll('input.match-checkbox').forEach(el => {
+					const checkbox = el as HTMLInputElement;
+					const from = parseInt(checkbox.dataset.from ?? '');
+					const to = parseInt(checkbox.dataset.to ?? '');
+					checkbox.onchange = () => {
+						if (checkbox.checked) {
+							excludedMatches = excludedMatches.filter(r => r.from !== from || r.to !== to);
+						} else if (!isExcludedMatch(from, to)) {
+							excludedMatches.push({ from, to });
+						}
+						// The ${n} counters of the following matches change with it
+						if (regToggleComponent.getValue() && /\$\{n[:}]/.test(replaceString)) {
+							updatePreview(true);
+							return;
+						}
+						const card = checkbox.closest('.match-card') as HTMLElement | null;
+						if (card) card.style.opacity = checkbox.checked ? '' : '0.5';
+						updatePreviewTitle();
+					};
+				});
+
+				// Add "Select all / none" controls
+				const selectControlsEl = document.createElement(divClass);
+				selectControlsEl.addClass('select-controls');
+
+				const selectAllEl = document.createElement('a');
+				selectAllEl.setText(t('preview.selectAll'));
+				selectAllEl.onclick = () => {
+					excludedMatches = [];
+					updatePreview(true);
+				};
+
+				const selectNoneEl = document.createElement('a');
+				selectNoneEl.setText(t('preview.selectNone'));
+				selectNoneEl.onclick = () => {
+					excludedMatches = matches.map(m => ({ from: m.from, to: m.to }));
+					updatePreview(true);
+				};
+
+				selectControlsEl.appendChild(selectAllEl);
+				selectControlsEl.appendChild(selectNoneEl);
+				previewContentEl.prepend(selectControlsEl);
+
+				// Add "Show more" button if there are more results
+				if (totalCount > previews.length) {
+					const showMoreBtn = document.createElement('button');
+					showMoreBtn.setText(t('preview.showMore', { count: Math.min(totalCount - previews.length, 10) }));
+					showMoreBtn.addClass('mod-cta');
+					showMoreBtn.style.marginTop = '0.5em';
+					showMoreBtn.style.width = '100%';
+					showMoreBtn.onclick = () => {
+						currentPreviewLimit += 10;
+						updatePreview(true);
+					};
+					previewContentEl.appendChild(showMoreBtn);
+
+					// Also show remaining count
+					const remainingText = document.createElement('div');
+					remainingText.style.fontStyle = 'italic';
+					remainingText.style.color = 'var(--text-muted)';
+					remainingText.style.marginTop = '0.5em';
+					remainingText.style.textAlign = 'center';
+					remainingText.style.fontSize = '0.9em';
+					remainingText.setText(t('preview.moreMatches', { count: totalCount - previews.length }));
+					previewContentEl.appendChild(remainingText);
+				}
+			}
+		};
+
+		// Add listeners to update preview, typing only searches again after a short pause
+		const requestPreview = debounce(() => updatePreview(), 250, true);
+		findInputComponent.inputEl.addEventListener('input', () => {
+			resetMatchState();
+			updateDiagnostics();
+			requestPreview();
+		});
+		replaceWithInputComponent.inputEl.addEventListener('input', () => {
+			updateDiagnostics();
+			requestPreview();
+		});
+		regToggleComponent.onChange(() => {
+			resetMatchState();
+			updateDiagnostics();
+			updatePreview();
+			updateFlagsDisplay();
+		});
+		selToggleComponent.onChange(() => {
+			updateSectionRows();
+			resetMatchState();
+			updatePreview();
+		});
+
+		// Create Buttons
+		const buttonContainerEl = document.createElement(divClass);
+		buttonContainerEl.addClass(rowClass);
+
+		const submitButtonTarget = document.createElement(divClass);
+		submitButtonTarget.addClass('button-wrapper');
+		submitButtonTarget.addClass(rowClass);
+
+		const submitButtonComponent = new ButtonComponent(submitButtonTarget);
+		submitButtonComponent.setButtonText(t('modal.replaceAll'));
+		submitButtonComponent.setCta();
+
+		// Only the modal can be cancelled, the panel stays open
+		const cancelButtonTarget = document.createElement(divClass);
+		cancelButtonTarget.addClass('button-wrapper');
+		cancelButtonTarget.addClass(rowClass);
+		if (this.host.close) {
+			const cancelButtonComponent = new ButtonComponent(cancelButtonTarget);
+			cancelButtonComponent.setButtonText(t('button.cancel'));
+			cancelButtonComponent.onClick(() => {
+				logger('Action cancelled.', 8);
+				this.host.close();
+			});
+		}
+
+		const saveSearchState = (searchString: string, replaceString: string, madeReplacements: boolean) => {
+			// Saving settings (find/replace text and toggle switch states)
+			this.settings.findText = searchString;
+			this.settings.replaceText = replaceString;
+			this.settings.useRegEx = regToggleComponent.getValue();
+			this.settings.selOnly = selToggleComponent.getValue();
+
+			// Auto-save successful pattern to history
+			if (madeReplacements) {
+				this.plugin.savePattern(
+					searchString,
+					replaceWithInputComponent.getValue(),
+					regToggleComponent.getValue(),
+					this.settings.caseInsensitive
+				);
+			}
+
+			this.plugin.saveData(this.settings);
+		};
+
+		// The modal closes; the panel keeps the fields, so that the pattern can be changed and run again
+		const finish = (message: string) => {
+			if (this.host.close) {
+				this.host.close();
+			} else {
+				stepReplacements = 0;
+				resetMatchState();
+				fillSavedPatterns();
+				fillHeadings();
+				updatePreview();
+			}
+			new Notice(message);
+		};
+
+		const performReplacement = async () => {
+			const editor = getEditor();
+			let resultString = t('notice.noMatch');
+			let scope = '';
+			let searchString = findInputComponent.getValue();
+			let replaceString = replaceWithInputComponent.getValue();
+
+			if (!editor) {
+				new Notice(t('view.noNote'));
+				return;
+			}
+			if (searchString === '') {
+				new Notice(t('notice.nothingToSearch'));
+				return;
+			}
+
+			// Replace line breaks in find-field if option is enabled
+			if (this.settings.processLineBreak) {
+				logger('Replacing linebreaks in find-field', 9);
+				logger('  old: ' + searchString, 9);
+				searchString = searchString.replace(/\\n/gm, '\n');
+				logger('  new: ' + searchString, 9);
+			}
+
+			// Replace tabs in find-field if option is enabled
+			if (this.settings.processTab) {
+				logger('Replacing tabs in find-field', 9);
+				logger('  old: ' + searchString, 9);
+				searchString = searchString.replace(/\\t/gm, '\t');
+				logger('  new: ' + searchString, 9);
+			}
+
+			// Replace line breaks in replace-field if option is enabled
+			if (this.settings.processLineBreak) {
+				logger('Replacing linebreaks in replace-field', 9);
+				logger('  old: ' + replaceString, 9);
+				replaceString = replaceString.replace(/\\n/gm, '\n');
+				logger('  new: ' + replaceString, 9);
+			}
+
+			// Replace tabs in replace-field if option is enabled
+			if (this.settings.processTab) {
+				logger('Replacing tabs in replace-field', 9);
+				logger('  old: ' + replaceString, 9);
+				replaceString = replaceString.replace(/\\t/gm, '\t');
+				logger('  new: ' + replaceString, 9);
+			}
+
+			const useRegEx = regToggleComponent.getValue();
+			const regexFlags = buildRegexFlags(this.settings);
+			if (useRegEx) logger('USING regex with flags: ' + regexFlags, 8);
+			else logger('NOT using regex', 8);
+
+			const noteText = editor.getValue();
+
+			if (isPropertyMode()) {
+				const property = this.settings.markdownScope.property.trim();
+				let edit: PropertyEdit | null;
+				try {
+					edit = await findPropertyEdit(editor, searchString, replaceString);
+				} catch (e) {
+					reportPropertyError(e);
+					return;
+				}
+				if (noteChangedSince(editor, noteText)) {
+					new Notice(t('notice.textChanged'));
+					return;
+				}
+				const count = edit ? edit.changes.length : 0;
+				if (count > 0) {
+					// Only the lines of the property are replaced, the rest of the note keeps its formatting
+					writeNote(editor, () => editor.replaceRange(edit.text, editor.offsetToPos(edit.from), editor.offsetToPos(edit.to)));
+					resultString = t('notice.replacements', { count, scope: t('scope.inProperty', { property }) });
+				}
+
+				saveSearchState(searchString, replaceString, count > 0);
+				finish(resultString);
+				return;
+			}
+
+			const scopeRange = getScopeRange(editor);
+			if (!scopeRange) {
+				new Notice(t('notice.noSection'));
+				return;
+			}
+			scope = getScopeLabel(scopeRange);
+			logger('   SCOPE: ' + scope, 9);
+			const targetText = getScopeText(editor, scopeRange);
+
+			// Use the same matches as the preview, skipping the ones unchecked there
+			let matches: TextMatch[];
+			try {
+				matches = (await findScopedMatches(editor, targetText, scopeRange.from, searchString)).matches;
+			} catch (e) {
+				reportMatchError(e);
+				return;
+			}
+			if (noteChangedSince(editor, noteText)) {
+				new Notice(t('notice.textChanged'));
+				return;
+			}
+			matches = matches.filter(m => !isExcludedMatch(m.from, m.to));
+
+			if (matches.length > 0) {
+				replaceScopeMatches(editor, scopeRange, targetText, matches, replaceString, useRegEx);
+				resultString = t('notice.replacements', { count: matches.length, scope });
+			}
+
+			saveSearchState(searchString, replaceString, matches.length > 0);
+			finish(resultString);
+		};
+
+		submitButtonComponent.onClick(async () => {
+			const editor = getEditor();
+			const searchString = findInputComponent.getValue();
+			if (!editor) {
+				new Notice(t('view.noNote'));
+				return;
+			}
+			if (!searchString) {
+				new Notice(t('notice.nothingToSearch'));
+				return;
+			}
+
+			// Check if confirmation is needed for large replacements
+			if (this.settings.confirmLargeReplace) {
+				const scopeRange = getScopeRange(editor);
+
+				let totalCount = 0;
+				try {
+					if (isPropertyMode()) {
+						const edit = await findPropertyEdit(
+							editor,
+							processEscapeSequences(searchString, this.settings),
+							processEscapeSequences(replaceWithInputComponent.getValue(), this.settings)
+						);
+						totalCount = edit ? edit.changes.length : 0;
+					} else if (scopeRange) {
+						totalCount = (await findScopedMatches(editor, getScopeText(editor, scopeRange), scopeRange.from, processEscapeSequences(searchString, this.settings)))
+							.matches.filter(m => !isExcludedMatch(m.from, m.to)).length;
+					}
+				} catch (e) {
+					if (isPropertyMode()) reportPropertyError(e); else reportMatchError(e);
+					return;
+				}
+
+				if (totalCount >= this.settings.largeReplaceThreshold) {
+					const scope = isPropertyMode()
+						? t('scope.inProperty', { property: this.settings.markdownScope.property.trim() })
+						: getScopeLabel(scopeRange);
+					const confirmed = confirm(
+						t('confirm.largeReplace', { count: totalCount, scope })
+					);
+					if (!confirmed) {
+						logger('Large replacement cancelled by user', 8);
+						return;
+					}
+				}
+			}
+
+			// The matches are searched again, the note may have been edited while the dialog was open
+			await performReplacement();
+		});
+
+		// Step-through mode: visit the matches one at a time and decide for each of them
+		const stepContainerEl = document.createElement(divClass);
+		stepContainerEl.addClass(rowClass);
+		stepContainerEl.addClass('step-row');
+
+		const findNextButtonComponent = new ButtonComponent(stepContainerEl);
+		const replaceOneButtonComponent = new ButtonComponent(stepContainerEl);
+		const skipButtonComponent = new ButtonComponent(stepContainerEl);
+		const replaceRemainingButtonComponent = new ButtonComponent(stepContainerEl);
+
+		const stepCounterEl = document.createElement(divClass);
+		stepCounterEl.addClass('step-counter');
+		stepContainerEl.appendChild(stepCounterEl);
+
+		// Select all matches: turns the matches, or one of their capture groups, into editor selections
+		const selectContainerEl = document.createElement(divClass);
+		selectContainerEl.addClass(rowClass);
+		selectContainerEl.addClass('step-row');
+
+		const selectGroupDropdownComponent = new DropdownComponent(selectContainerEl);
+		const selectAllButtonComponent = new ButtonComponent(selectContainerEl);
+		selectAllButtonComponent.setButtonText(t('modal.selectAll'));
+		selectAllButtonComponent.setTooltip(t('modal.selectAllTooltip'));
+
+		// The groups to choose from follow the pattern, a group that is gone falls back to the whole match
+		const updateSelectGroups = (findText: string) => {
+			const analysis = regToggleComponent.getValue() ? analyzeRegex(findText) : null;
+			const groupCount = analysis && !analysis.error ? analysis.groupCount : 0;
+			const groupNames: { [groupNumber: number]: string } = {};
+			if (analysis) {
+				analysis.tokens.forEach(token => {
+					if (token.groupNumber !== undefined && token.groupName) groupNames[token.groupNumber] = token.groupName;
+				});
+			}
+
+			selectGroupDropdownComponent.selectEl.empty();
+			selectGroupDropdownComponent.addOption('0', t('modal.selectWholeMatch'));
+			for (let n = 1; n <= groupCount; n++) {
+				selectGroupDropdownComponent.addOption(String(n), groupNames[n] ? `$${n} <${groupNames[n]}>` : `$${n}`);
+			}
+			if (this.settings.selectGroup > groupCount) this.settings.selectGroup = 0;
+			selectGroupDropdownComponent.setValue(String(this.settings.selectGroup));
+			selectGroupDropdownComponent.selectEl.style.display = groupCount > 0 ? '' : 'none';
+		};
+		selectGroupDropdownComponent.onChange((value) => {
+			this.settings.selectGroup = parseInt(value);
+			this.plugin.saveData(this.settings);
+		});
+
+		findNextButtonComponent.setButtonText(t('modal.findNext'));
+		replaceOneButtonComponent.setButtonText(t('modal.replaceOne'));
+		skipButtonComponent.setButtonText(t('modal.skip'));
+		replaceRemainingButtonComponent.setButtonText(t('modal.replaceRemaining'));
+
+		// Offsets are relative to the start of the scope (document or selection)
+		let stepPosition = 0;
+		let currentMatch: TextMatch | null = null;
+		let stepReplacements = 0;
+
+		// Property values are rewritten as YAML, so they can not be stepped through like text
+		const updateStepButtons = () => {
+			const canStep = patternIsValid && !isPropertyMode() && getEditor() !== null;
+			selectAllButtonComponent.setDisabled(!canStep);
+			findNextButtonComponent.setDisabled(!canStep);
+			replaceOneButtonComponent.setDisabled(!canStep);
+			skipButtonComponent.setDisabled(currentMatch === null || !canStep);
+			replaceRemainingButtonComponent.setDisabled(!canStep);
+		};
+
+		// An invalid pattern can not be applied, so the buttons stay disabled until it is fixed
+		const updateDiagnostics = () => {
+			const findText = findInputComponent.getValue();
+			const diagnostics = diagnoseFindReplace(
+				findText,
+				replaceWithInputComponent.getValue(),
+				regToggleComponent.getValue(),
+				buildRegexFlags(this.settings)
+			);
+			renderRegexDiagnostics(diagnosticsEl, findText, diagnostics);
+			updateSelectGroups(findText);
+			highlightFindInput(regToggleComponent.getValue(), diagnostics.error);
+			const explanationLines = regToggleComponent.getValue()
+				? renderRegexExplanation(explanationContentEl, findText, this.settings.multilineMatch)
+				: 0;
+			explanationDetailsEl.style.display = explanationLines > 0 ? '' : 'none';
+			patternIsValid = diagnostics.error === null;
+			submitButtonComponent.setDisabled(!patternIsValid || getEditor() === null);
+			updateStepButtons();
+		};
+
+		const resetStep = () => {
+			stepPosition = 0;
+			currentMatch = null;
+			if (this.highlighter) this.highlighter.clearCurrent();
+			stepCounterEl.setText('');
+			updateStepButtons();
+		};
+
+		// The offsets of the preview selection are only valid for the current search
+		const resetMatchState = () => {
+			excludedMatches = [];
+			inspectedMatches = [];
+			resetStep();
+		};
+
+		const getStepMatches = async (): Promise<{ editor: Editor, noteText: string, matches: TextMatch[], scopeText: string, scopeFrom: number } | null> => {
+			const editor = getEditor();
+			const searchString = processEscapeSequences(findInputComponent.getValue(), this.settings);
+			if (!editor) {
+				new Notice(t('view.noNote'));
+				return null;
+			}
+			if (!searchString) {
+				new Notice(t('notice.nothingToSearch'));
+				return null;
+			}
+
+			const scopeRange = getScopeRange(editor);
+			if (!scopeRange) {
+				stepCounterEl.setText(t('notice.noSection'));
+				return null;
+			}
+			const noteText = editor.getValue();
+			const scopeFrom = scopeRange.from;
+			const scopeText = getScopeText(editor, scopeRange);
+			try {
+				const { matches } = await findScopedMatches(editor, scopeText, scopeFrom, searchString);
+				return { editor, noteText, matches, scopeText, scopeFrom };
+			} catch (e) {
+				if (e instanceof MatchAbortedError) {
+					reportMatchError(e);
+				} else {
+					logger('Invalid regex pattern: ' + e, 0);
+					stepCounterEl.setText(t('modal.invalidPattern'));
+				}
+				return null;
+			}
+		};
+
+		const getStepReplacement = (match: TextMatch, scopeText: string, matchNumber: number, context: ReplacementContext) => {
+			const replaceString = processEscapeSequences(replaceWithInputComponent.getValue(), this.settings);
+			return regToggleComponent.getValue() ? expandReplacement(replaceString, match, scopeText, matchNumber, context) : replaceString;
+		};
+
+		const showStepMatch = async () => {
+			const result = await getStepMatches();
+			if (!result || noteChangedSince(result.editor, result.noteText)) {
+				currentMatch = null;
+				if (this.highlighter) this.highlighter.clearCurrent();
+				updateStepButtons();
+				return;
+			}
+
+			// Matches unchecked in the preview are left out, as Replace All and Replace Remaining leave them
+			const { editor, scopeFrom } = result;
+			const matches = result.matches.filter(m => !isExcludedMatch(m.from, m.to));
+			const index = matches.findIndex(m => m.from >= stepPosition);
+			if (index === -1) {
+				// Start over from the top with the next "Find Next"
+				currentMatch = null;
+				if (this.highlighter) this.highlighter.clearCurrent();
+				stepPosition = 0;
+				stepCounterEl.setText(matches.length > 0 ? t('modal.noMoreMatches') : t('modal.noMatches'));
+				updateStepButtons();
+				return;
+			}
+
+			currentMatch = matches[index];
+			const from = editor.offsetToPos(scopeFrom + currentMatch.from);
+			const to = editor.offsetToPos(scopeFrom + currentMatch.to);
+			editor.setSelection(from, to);
+			rememberOwnSelections(editor);
+			editor.scrollIntoView({ from, to }, true);
+			if (this.highlighter) this.highlighter.showCurrent(scopeFrom + currentMatch.from, scopeFrom + currentMatch.to);
+			stepCounterEl.setText(t('modal.stepCounter', { current: index + 1, total: matches.length }));
+			updateStepButtons();
+		};
+
+		const skipCurrentMatch = async () => {
+			if (currentMatch) {
+				stepPosition = currentMatch.to + (currentMatch.from === currentMatch.to ? 1 : 0);
+			}
+			await showStepMatch();
+		};
+
+		const replaceCurrentMatch = async () => {
+			if (!currentMatch) {
+				await showStepMatch();
+				return;
+			}
+
+			// Make sure the match is still where we found it
+			const previous = currentMatch;
+			const result = await getStepMatches();
+			const match = result ? result.matches.find(m => m.from === previous.from && m.to === previous.to) : undefined;
+			if (!result || !match || noteChangedSince(result.editor, result.noteText)) {
+				await showStepMatch();
+				return;
+			}
+
+			const { editor } = result;
+			const replacement = getStepReplacement(match, result.scopeText, stepReplacements + 1, getReplacementContext());
+			writeNote(editor, () => editor.replaceRange(
+				replacement,
+				editor.offsetToPos(result.scopeFrom + match.from),
+				editor.offsetToPos(result.scopeFrom + match.to)
+			));
+			const delta = replacement.length - match.text.length;
+			if (inSelectionScope()) {
+				const edit = { from: result.scopeFrom + match.from, to: result.scopeFrom + match.to, text: replacement };
+				selectionRanges = selectionRanges.map(range => mapRangeThroughEdits(range, [edit]));
+			}
+
+			// Keep the preview selection in sync with the shifted text
+			excludedMatches = excludedMatches
+				.filter(r => r.from !== match.from || r.to !== match.to)
+				.map(r => r.from >= match.to ? { from: r.from + delta, to: r.to + delta } : r);
+
+			if (stepReplacements === 0) {
+				saveSearchState(
+					processEscapeSequences(findInputComponent.getValue(), this.settings),
+					processEscapeSequences(replaceWithInputComponent.getValue(), this.settings),
+					true
+				);
+			}
+			stepReplacements++;
+
+			stepPosition = match.from + replacement.length + (match.from === match.to ? 1 : 0);
+			updatePreview(true);
+			await showStepMatch();
+		};
+
+		const replaceRemainingMatches = async () => {
+			const result = await getStepMatches();
+			if (!result) return;
+			if (noteChangedSince(result.editor, result.noteText)) {
+				new Notice(t('notice.textChanged'));
+				return;
+			}
+
+			const { editor, matches, scopeText, scopeFrom } = result;
+			const start = currentMatch ? currentMatch.from : stepPosition;
+			const remaining = matches.filter(m => m.from >= start && !isExcludedMatch(m.from, m.to));
+			if (remaining.length === 0) {
+				new Notice(t('notice.noMatch'));
+				return;
+			}
+
+			const context = getReplacementContext();
+			if (inSelectionScope()) {
+				// Selections are searched within the whole note, so the match offsets are note offsets
+				replaceInSelections(editor, remaining.map((m, index) => ({
+					from: m.from,
+					to: m.to,
+					text: getStepReplacement(m, scopeText, stepReplacements + index + 1, context)
+				})));
+			} else {
+				let output = '';
+				let last = start;
+				remaining.forEach((m, index) => {
+					output += scopeText.substring(last, m.from) + getStepReplacement(m, scopeText, stepReplacements + index + 1, context);
+					last = m.to;
+				});
+				output += scopeText.substring(last);
+
+				writeNote(editor, () => editor.replaceRange(
+					output,
+					editor.offsetToPos(scopeFrom + start),
+					editor.offsetToPos(scopeFrom + scopeText.length)
+				));
+			}
+
+			saveSearchState(
+				processEscapeSequences(findInputComponent.getValue(), this.settings),
+				processEscapeSequences(replaceWithInputComponent.getValue(), this.settings),
+				stepReplacements === 0
+			);
+
+			const scope = getScopeLabel(getScopeRange(editor));
+			finish(t('notice.replacements', { count: stepReplacements + remaining.length, scope }));
+		};
+
+		// Uses the matches of the preview, without the ones unchecked there
+		const selectAllMatches = async () => {
+			const editor = getEditor();
+			const searchString = processEscapeSequences(findInputComponent.getValue(), this.settings);
+			if (!editor) {
+				new Notice(t('view.noNote'));
+				return;
+			}
+			if (!searchString) {
+				new Notice(t('notice.nothingToSearch'));
+				return;
+			}
+			const scopeRange = getScopeRange(editor);
+			if (!scopeRange) {
+				new Notice(t('notice.noSection'));
+				return;
+			}
+
+			const noteText = editor.getValue();
+			let matches: TextMatch[];
+			try {
+				matches = (await findScopedMatches(editor, getScopeText(editor, scopeRange), scopeRange.from, searchString, this.matchWorker, true)).matches;
+			} catch (e) {
+				reportMatchError(e);
+				return;
+			}
+			if (noteChangedSince(editor, noteText)) {
+				new Notice(t('notice.textChanged'));
+				return;
+			}
+			matches = matches.filter(m => !isExcludedMatch(m.from, m.to));
+
+			const group = regToggleComponent.getValue() ? this.settings.selectGroup : 0;
+			const count = selectMatchesInEditor(editor, matches, scopeRange.from, group);
+			if (count === 0) {
+				new Notice(t('notice.noMatch'));
+				return;
+			}
+
+			saveSearchState(searchString, processEscapeSequences(replaceWithInputComponent.getValue(), this.settings), false);
+			finish(t('notice.selectedMatches', { count }));
+		};
+
+		selectAllButtonComponent.onClick(() => selectAllMatches());
+		findNextButtonComponent.onClick(() => skipCurrentMatch());
+		replaceOneButtonComponent.onClick(() => replaceCurrentMatch());
+		skipButtonComponent.onClick(() => skipCurrentMatch());
+		replaceRemainingButtonComponent.onClick(() => replaceRemainingMatches());
+		updateStepButtons();
+
+		// Apply settings
+		regToggleComponent.setValue(this.settings.useRegEx);
+		selToggleComponent.setValue(this.settings.selOnly);
+		replaceWithInputComponent.setValue(this.settings.replaceText);
+
+		// Check if the prefill find option is enabled and the selection does not contain linebreaks
+		const initialEditor = getEditor();
+		if (this.settings.prefillFind && initialEditor && initialEditor.getSelection().indexOf('\n') < 0 && hasSelection()) {
+			logger('Found selection without linebreaks and option is enabled -> fill',9);
+			findInputComponent.setValue(initialEditor.getSelection());
+			selToggleComponent.setValue(false);
+		}
+		else {
+			logger('Restore find text', 9);
+			findInputComponent.setValue(this.settings.findText);
+		}
+
+		// Add step and button rows, then the preview
+		controlsEl.appendChild(stepContainerEl);
+		controlsEl.appendChild(selectContainerEl);
+		buttonContainerEl.appendChild(submitButtonTarget);
+		if (this.host.close) buttonContainerEl.appendChild(cancelButtonTarget);
+		buttonContainerEl.style.marginTop = '1em';
+		controlsEl.appendChild(buttonContainerEl);
+		if (this.settings.showPreview) {
+			previewParentEl.appendChild(previewContainerEl);
+		}
+
+		// If no text is selected, disable selection-toggle-switch
+		if (!hasSelection()) selToggleComponent.setValue(false);
+		updateSectionRows();
+
+		// The panel searches another note: its selections, cursor and headings replace the ones of the last note
+		this.noteChanged = () => {
+			bindNote();
+			fillHeadings();
+			stepReplacements = 0;
+			resetMatchState();
+			updateSectionRows();
+			updateDiagnostics();
+			updatePreview();
+		};
+		// Stepping through matches moves the selection itself; only a selection or cursor moved in the note counts
+		this.selectionChanged = () => {
+			const editor = getEditor();
+			if (!editor || getSelectionsKey(editor) === knownSelections) return;
+			readNoteState();
+			resetMatchState();
+			updateSectionRows();
+			updatePreview();
+		};
+		// Edits made in the note move the text under the unchecked matches and the step position
+		this.noteEdited = () => {
+			const editor = getEditor();
+			if (!editor || writingNote || editor.getValue() === knownText) return;
+			knownText = editor.getValue();
+			resetMatchState();
+			requestPreview();
+		};
+
+		// Initial preview after all values are set
+		updateDiagnostics();
+		updatePreview();
+	}
+
+	destroy(): void {
+		this.previewWorker.destroy();
+		this.matchWorker.destroy();
+		if (this.highlighter) this.highlighter.clear();
+	}
+}
+
+class FindAndReplaceModal extends Modal {
+	constructor(app: App, editor: Editor, plugin: RegexFindReplacePlugin) {
+		super(app);
+		this.editor = editor;
+		this.plugin = plugin;
+	}
+
+	editor: Editor;
+	plugin: RegexFindReplacePlugin;
+	form: FindReplaceForm;
+
+	onOpen() {
+		const { contentEl, titleEl, modalEl } = this;
+
+		modalEl.addClass('find-replace-modal');
+		modalEl.style.width = '90vw';
+		modalEl.style.maxWidth = '1200px';
+		// @ts-ignore - __VERSION__ is replaced by rollup at build time
+		titleEl.setText(t('modal.title', { version: __VERSION__ }));
+
+		// Create two-column layout
+		const mainContainer = document.createElement('div');
+		mainContainer.style.display = 'flex';
+		mainContainer.style.gap = '1.5em';
+		mainContainer.style.alignItems = 'flex-start';
+
+		const leftColumn = document.createElement('div');
+		leftColumn.style.flex = '0 0 400px';
+		leftColumn.style.minWidth = '350px';
+
+		const rightColumn = document.createElement('div');
+		rightColumn.style.flex = '1';
+		rightColumn.style.minWidth = '300px';
+
+		mainContainer.appendChild(leftColumn);
+		mainContainer.appendChild(rightColumn);
+		contentEl.appendChild(mainContainer);
+
+		this.form = new FindReplaceForm(this.app, this.plugin, {
+			getEditor: () => this.editor,
+			getFile: () => this.app.workspace.getActiveFile(),
+			close: () => this.close()
+		});
+		this.form.render(leftColumn, rightColumn);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.form.destroy();
+	}
+}
+
+const FIND_REPLACE_VIEW_TYPE = 'regex-find-replace';
+
+// Find and replace docked in the sidebar. Unlike the modal it does not block the editor: it searches the
+// last active note while you edit it, and keeps its fields after replacing, so a pattern can be run again.
+class FindReplaceView extends ItemView {
+	constructor(leaf: WorkspaceLeaf, plugin: RegexFindReplacePlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	plugin: RegexFindReplacePlugin;
+	// The note that is searched; the panel itself becomes the active view while it is used
+	markdownView: MarkdownView | null = null;
+	noteFile: TFile | null = null;
+	form: FindReplaceForm;
+
+	getViewType(): string {
+		return FIND_REPLACE_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return t('view.title');
+	}
+
+	getIcon(): string {
+		return 'search';
+	}
+
+	async onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('find-replace-view');
+
+		const noteEl = document.createElement('div');
+		noteEl.addClass('rfr-view-note');
+		contentEl.appendChild(noteEl);
+
+		this.form = new FindReplaceForm(this.app, this.plugin, {
+			getEditor: () => this.markdownView ? this.markdownView.editor : null,
+			getFile: () => this.markdownView ? this.markdownView.file : null
+		});
+
+		const showNoteName = () => {
+			noteEl.setText(this.noteFile ? t('view.note', { name: this.noteFile.basename }) : t('view.noNote'));
+		};
+		// Switches to another note, or to none when its view was closed. Going back to the same note keeps
+		// the state of the form, like the step-through position.
+		const setMarkdownView = (view: MarkdownView | null) => {
+			const file = view ? view.file : null;
+			if (view === this.markdownView && file === this.noteFile) return;
+			this.markdownView = view;
+			this.noteFile = file;
+			showNoteName();
+			this.form.noteChanged();
+		};
+		const markdownLeaf = this.app.workspace.getLeavesOfType('markdown')[0];
+		this.markdownView = this.app.workspace.getActiveViewOfType(MarkdownView)
+			?? (markdownLeaf ? markdownLeaf.view as MarkdownView : null);
+		this.noteFile = this.markdownView ? this.markdownView.file : null;
+		showNoteName();
+		this.form.render(contentEl, contentEl);
+
+		// Coming back to the panel from the note, the selection or the cursor may have moved
+		contentEl.addEventListener('focusin', (event: FocusEvent) => {
+			if (!(event.relatedTarget instanceof Node) || !contentEl.contains(event.relatedTarget)) this.form.selectionChanged();
+		});
+
+		// Follow the active note; when another kind of view is active, like this panel, the last note is kept
+		this.registerEvent(this.app.workspace.on('active-leaf-change', (leaf) => {
+			if (leaf && leaf.view instanceof MarkdownView) setMarkdownView(leaf.view);
+		}));
+		this.registerEvent(this.app.workspace.on('file-open', () => {
+			const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+			if (view) setMarkdownView(view);
+		}));
+		this.registerEvent(this.app.workspace.on('layout-change', () => {
+			if (this.markdownView && !this.app.workspace.getLeavesOfType('markdown').some(leaf => leaf.view === this.markdownView)) {
+				setMarkdownView(null);
+			}
+		}));
+		this.registerEvent(this.app.workspace.on('editor-change', (editor) => {
+			if (this.markdownView && editor === this.markdownView.editor) this.form.noteEdited();
+		}));
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+		if (this.form) this.form.destroy();
+	}
+}
+
+class SavedPatternSuggestModal extends FuzzySuggestModal<RegexPattern> {
+	constructor(app: App, editor: Editor, plugin: RegexFindReplacePlugin) {
+		super(app);
+		this.editor = editor;
+		this.plugin = plugin;
+		this.setPlaceholder(editor.somethingSelected()
+			? t('picker.selection')
+			: t('picker.document'));
+		this.emptyStateText = t('picker.empty');
+	}
+
+	editor: Editor;
+	plugin: RegexFindReplacePlugin;
+
+	getItems(): RegexPattern[] {
+		return [...this.plugin.settings.savedPatterns].sort((a, b) => {
+			if (a.isPinned !== b.isPinned) return a.isPinned ? -1 : 1;
+			return b.lastUsed - a.lastUsed;
+		});
+	}
+
+	getItemText(pattern: RegexPattern): string {
+		return `${pattern.name} ${pattern.findText} ${pattern.replaceText} ${pattern.description} ${pattern.tags.join(' ')}`;
+	}
+
+	renderSuggestion(item: FuzzyMatch<RegexPattern>, el: HTMLElement): void {
+		const pattern = item.item;
+		el.createDiv({ text: (pattern.isPinned ? '⭐ ' : '') + pattern.name });
+		el.createEl('small', {
+			text: `${pattern.findText} → ${pattern.replaceText}`,
+			cls: 'rfr-suggestion-detail'
+		});
+	}
+
+	onChooseItem(pattern: RegexPattern): void {
+		this.plugin.applyPatternToEditor(this.editor, pattern);
+	}
+}
+
+interface VaultFileMatches {
+	file: TFile;
+	previews: MatchPreview[];
+	// Filled instead of the previews when replacing in a frontmatter property
+	propertyChanges: PropertyValueChange[];
+	totalCount: number;
+	included: boolean;
+}
+
+class VaultFindAndReplaceModal extends Modal {
+	constructor(app: App, settings: RfrPluginSettings, plugin: RegexFindReplacePlugin) {
+		super(app);
+		this.settings = settings;
+		this.plugin = plugin;
+	}
+
+	settings: RfrPluginSettings;
+	plugin: RegexFindReplacePlugin;
+	results: VaultFileMatches[] = [];
+	matchWorker = new MatchWorker();
+
+	collectFiles(): TFile[] {
+		const files = this.app.vault.getMarkdownFiles();
+		const value = this.settings.vaultScopeValue.trim();
+		if (!value) return files;
+
+		if (this.settings.vaultScopeMode === 'glob') {
+			const globRegex = globToRegExp(value);
+			return files.filter(f => globRegex.test(f.path));
+		}
+
+		if (this.settings.vaultScopeMode === 'tag') {
+			const tag = value.replace(/^#/, '').toLowerCase();
+			return files.filter(f => {
+				const cache = this.app.metadataCache.getFileCache(f);
+				const tags = cache ? getAllTags(cache) : null;
+				if (!tags) return false;
+				return tags.some(t => {
+					const name = t.replace(/^#/, '').toLowerCase();
+					return name === tag || name.startsWith(tag + '/');
+				});
+			});
+		}
+
+		const folder = normalizePath(value).replace(/^\/+|\/+$/g, '');
+		if (!folder) return files;
+		return files.filter(f => f.path.startsWith(folder + '/'));
+	}
+
+	onOpen() {
+		const { contentEl, titleEl, modalEl } = this;
+
+		modalEl.addClass('find-replace-modal');
+		modalEl.style.width = '90vw';
+		modalEl.style.maxWidth = '1200px';
+		titleEl.setText(t('vault.title'));
+
+		// Create two-column layout
+		const mainContainer = document.createElement('div');
+		mainContainer.style.display = 'flex';
+		mainContainer.style.gap = '1.5em';
+		mainContainer.style.alignItems = 'flex-start';
+
+		const leftColumn = document.createElement('div');
+		leftColumn.style.flex = '0 0 400px';
+		leftColumn.style.minWidth = '350px';
+
+		const rightColumn = document.createElement('div');
+		rightColumn.style.flex = '1';
+		rightColumn.style.minWidth = '300px';
+
+		mainContainer.appendChild(leftColumn);
+		mainContainer.appendChild(rightColumn);
+		contentEl.appendChild(mainContainer);
+
+		const [findInputComponent, flagsLabelEl] = createTextRow(leftColumn, t('label.find'), t('placeholder.find'));
+		const [replaceWithInputComponent] = createTextRow(leftColumn, t('label.replace'), t('placeholder.replace'));
+		const regToggleComponent = createToggleRow(leftColumn, t('toggle.useRegex'), t('toggle.useRegexTooltip'));
+
+		const updateFlagsLabel = () => {
+			flagsLabelEl.setText(regToggleComponent.getValue() ? '/' + buildRegexFlags(this.settings) : '');
+		};
+
+		// Create file scope selector
+		const scopeContainerEl = document.createElement('div');
+		scopeContainerEl.addClass('row');
+
+		const scopeLabelEl = document.createElement('div');
+		scopeLabelEl.addClass('input-label');
+		scopeLabelEl.setText(t('vault.files'));
+
+		const scopeDropdownEl = document.createElement('div');
+		scopeDropdownEl.style.marginRight = '8px';
+		const scopeDropdownComponent = new DropdownComponent(scopeDropdownEl);
+		scopeDropdownComponent.addOption('folder', t('vault.folder'));
+		scopeDropdownComponent.addOption('glob', t('vault.glob'));
+		scopeDropdownComponent.addOption('tag', t('vault.tag'));
+
+		const scopeInputEl = document.createElement('div');
+		scopeInputEl.addClass('input-wrapper');
+		const scopeInputComponent = new TextComponent(scopeInputEl);
+
+		scopeContainerEl.appendChild(scopeLabelEl);
+		scopeContainerEl.appendChild(scopeDropdownEl);
+		scopeContainerEl.appendChild(scopeInputEl);
+		leftColumn.appendChild(scopeContainerEl);
+
+		const scopePlaceholders: Record<VaultScopeMode, string> = {
+			folder: t('vault.folderPlaceholder'),
+			glob: t('vault.globPlaceholder'),
+			tag: t('vault.tagPlaceholder')
+		};
+		const updateScopePlaceholder = () => {
+			scopeInputComponent.setPlaceholder(scopePlaceholders[this.settings.vaultScopeMode]);
+		};
+
+		const [propertyInputComponent] = createTextRow(leftColumn, t('vault.property'), t('vault.propertyPlaceholder'));
+		const getProperty = () => this.settings.vaultProperty.trim();
+
+		// Create preview section (right column)
+		const previewTitleEl = document.createElement('div');
+		previewTitleEl.addClass('preview-title');
+		previewTitleEl.style.fontWeight = 'bold';
+		previewTitleEl.style.marginBottom = '0.5em';
+		previewTitleEl.style.fontSize = '1.1em';
+		previewTitleEl.style.paddingBottom = '0.5em';
+		previewTitleEl.style.borderBottom = '1px solid var(--background-modifier-border)';
+		previewTitleEl.setText(t('vault.pressSearch'));
+
+		const previewContentEl = document.createElement('div');
+		previewContentEl.addClass('preview-content');
+		previewContentEl.style.fontSize = '0.9em';
+		previewContentEl.style.maxHeight = '60vh';
+		previewContentEl.style.overflowY = 'auto';
+		previewContentEl.style.padding = '0.5em';
+		previewContentEl.style.backgroundColor = 'var(--background-secondary)';
+		previewContentEl.style.borderRadius = '4px';
+		previewContentEl.style.marginTop = '0.5em';
+
+		rightColumn.appendChild(previewTitleEl);
+		rightColumn.appendChild(previewContentEl);
+
+		// Create Buttons
+		const buttonContainerEl = document.createElement('div');
+		buttonContainerEl.addClass('row');
+		buttonContainerEl.style.marginTop = '1em';
+
+		const searchButtonTarget = document.createElement('div');
+		searchButtonTarget.addClass('button-wrapper');
+		searchButtonTarget.addClass('row');
+
+		const submitButtonTarget = document.createElement('div');
+		submitButtonTarget.addClass('button-wrapper');
+		submitButtonTarget.addClass('row');
+
+		const cancelButtonTarget = document.createElement('div');
+		cancelButtonTarget.addClass('button-wrapper');
+		cancelButtonTarget.addClass('row');
+
+		buttonContainerEl.appendChild(searchButtonTarget);
+		buttonContainerEl.appendChild(submitButtonTarget);
+		buttonContainerEl.appendChild(cancelButtonTarget);
+		leftColumn.appendChild(buttonContainerEl);
+
+		const searchButtonComponent = new ButtonComponent(searchButtonTarget);
+		const submitButtonComponent = new ButtonComponent(submitButtonTarget);
+		const cancelButtonComponent = new ButtonComponent(cancelButtonTarget);
+
+		searchButtonComponent.setButtonText(t('vault.search'));
+		submitButtonComponent.setButtonText(t('vault.replaceInFiles', { count: 0 }));
+		submitButtonComponent.setCta();
+		submitButtonComponent.setDisabled(true);
+		cancelButtonComponent.setButtonText(t('button.cancel'));
+		cancelButtonComponent.onClick(() => {
+			logger('Action cancelled.', 8);
+			this.close();
+		});
+
+		const getSearchStrings = (): [string, string] => {
+			return [
+				processEscapeSequences(findInputComponent.getValue(), this.settings),
+				processEscapeSequences(replaceWithInputComponent.getValue(), this.settings)
+			];
+		};
+
+		// A search stopped by a timeout or an error only has the results of the files before it,
+		// so nothing is replaced until the search is run again
+		let searchComplete = true;
+		// Enter in the find field can start a search while one runs; both would fill this.results
+		let searching = false;
+
+		const updateSubmitButton = () => {
+			const includedFiles = this.results.filter(r => r.included).length;
+			submitButtonComponent.setButtonText(t('vault.replaceInFiles', { count: includedFiles }));
+			submitButtonComponent.setDisabled(includedFiles === 0 || !searchComplete || searching);
+		};
+
+		const renderResults = () => {
+			previewContentEl.empty();
+			const incompleteNote = searchComplete ? '' : t('preview.incomplete');
+			const totalCount = this.results.reduce((sum, r) => sum + r.totalCount, 0);
+			if (totalCount === 0) {
+				previewTitleEl.setText(t('preview.noMatches') + incompleteNote);
+				updateSubmitButton();
+				return;
+			}
+			previewTitleEl.setText((getProperty()
+				? t('vault.propertyChangesInFiles', { count: totalCount, files: this.results.length, property: getProperty() })
+				: t('vault.matchesInFiles', { count: totalCount, files: this.results.length })) + incompleteNote);
+
+			this.results.forEach(result => {
+				const fileEl = document.createElement('div');
+				fileEl.style.marginBottom = '1em';
+
+				const headerEl = document.createElement('label');
+				headerEl.style.display = 'flex';
+				headerEl.style.alignItems = 'center';
+				headerEl.style.gap = '0.5em';
+				headerEl.style.fontWeight = 'bold';
+				headerEl.style.marginBottom = '0.4em';
+				headerEl.style.cursor = 'pointer';
+
+				const checkboxEl = document.createElement('input');
+				checkboxEl.type = 'checkbox';
+				checkboxEl.checked = result.included;
+				checkboxEl.onchange = () => {
+					result.included = checkboxEl.checked;
+					cardsEl.style.opacity = result.included ? '1' : '0.4';
+					updateSubmitButton();
+				};
+
+				const pathEl = document.createElement('span');
+				pathEl.setText(result.file.path);
+
+				const countEl = document.createElement('span');
+				countEl.style.fontWeight = 'normal';
+				countEl.style.color = 'var(--text-muted)';
+				countEl.setText(t('vault.fileMatches', { count: result.totalCount }));
+
+				headerEl.appendChild(checkboxEl);
+				headerEl.appendChild(pathEl);
+				headerEl.appendChild(countEl);
+
+				const cardsEl = document.createElement('div');
+				cardsEl.style.opacity = result.included ? '1' : '0.4';
+				let cardsHtml = '';
+				result.previews.forEach(p => {
+					cardsHtml += renderPreviewCard(p);
+				});
+				result.propertyChanges.forEach(change => {
+					cardsHtml += renderPropertyChangeCard(getProperty(), change);
+				});
+				cardsEl.innerHTML = cardsHtml;
+
+				if (result.propertyChanges.length === 0 && result.totalCount > result.previews.length) {
+					const remainingText = document.createElement('div');
+					remainingText.style.fontStyle = 'italic';
+					remainingText.style.color = 'var(--text-muted)';
+					remainingText.style.fontSize = '0.9em';
+					remainingText.setText(t('preview.moreMatches', { count: result.totalCount - result.previews.length }));
+					cardsEl.appendChild(remainingText);
+				}
+
+				fileEl.appendChild(headerEl);
+				fileEl.appendChild(cardsEl);
+				previewContentEl.appendChild(fileEl);
+			});
+			updateSubmitButton();
+		};
+
+		// Notes with invalid YAML in the property are left out, an invalid pattern stops the search
+		const searchProperty = async (files: TFile[], property: string, searchString: string, replaceString: string, regexFlags: string) => {
+			if (regToggleComponent.getValue()) {
+				try {
+					new RegExp(searchString, regexFlags);
+				} catch (e) {
+					logger('Invalid regex pattern: ' + e, 0);
+					new Notice(t('notice.invalidRegex'));
+					searchComplete = false;
+					return;
+				}
+			}
+
+			let invalidFiles = 0;
+			for (const file of files) {
+				const text = await this.app.vault.cachedRead(file);
+				let edit: PropertyEdit | null;
+				try {
+					edit = await replacePropertyValues(
+						this.matchWorker,
+						text,
+						property,
+						searchString,
+						replaceString,
+						regToggleComponent.getValue(),
+						regexFlags,
+						this.settings.matchTimeout * 1000,
+						createReplacementContext(file.basename)
+					);
+				} catch (e) {
+					if (e instanceof MatchAbortedError) {
+						if (e.reason === 'timeout') new Notice(t('notice.matchTimeout', { seconds: this.settings.matchTimeout }));
+						searchComplete = false;
+						break;
+					}
+					logger(`Could not parse property ${property} of ${file.path}: ` + e, 0);
+					invalidFiles++;
+					continue;
+				}
+				if (edit && edit.changes.length > 0) {
+					this.results.push({ file, previews: [], propertyChanges: edit.changes, totalCount: edit.changes.length, included: true });
+				}
+			}
+			if (invalidFiles > 0) new Notice(t('notice.invalidPropertyFiles', { count: invalidFiles, property }));
+		};
+
+		const runSearch = async () => {
+			if (searching) return;
+			const [searchString, replaceString] = getSearchStrings();
+			if (!searchString) {
+				new Notice(t('notice.nothingToSearch'));
+				return;
+			}
+
+			const files = this.collectFiles();
+			logger(`Searching ${files.length} file(s) in vault`, 8);
+			previewTitleEl.setText(t('vault.searching', { count: files.length }));
+			previewContentEl.empty();
+			searching = true;
+			searchButtonComponent.setDisabled(true);
+			submitButtonComponent.setDisabled(true);
+
+			this.results = [];
+			searchComplete = true;
+			const regexFlags = buildRegexFlags(this.settings);
+			const property = getProperty();
+			if (property) {
+				await searchProperty(files, property, searchString, replaceString, regexFlags);
+				searching = false;
+				searchButtonComponent.setDisabled(false);
+				renderResults();
+				return;
+			}
+			for (const file of files) {
+				const text = await this.app.vault.cachedRead(file);
+				let matches: TextMatch[];
+				try {
+					matches = await findMatchesInWorker(
+						this.matchWorker,
+						text,
+						searchString,
+						regToggleComponent.getValue(),
+						regexFlags,
+						this.settings.matchTimeout * 1000
+					);
+				} catch (e) {
+					if (e instanceof MatchAbortedError) {
+						if (e.reason === 'timeout') new Notice(t('notice.matchTimeout', { seconds: this.settings.matchTimeout }));
+					} else {
+						logger('Invalid regex pattern: ' + e, 0);
+						new Notice(t('notice.invalidRegex'));
+					}
+					searchComplete = false;
+					break;
+				}
+				if (matches.length > 0) {
+					const previews = generateMatchPreviews(
+						text,
+						matches,
+						replaceString,
+						regToggleComponent.getValue(),
+						this.settings.previewLimit,
+						createReplacementContext(file.basename)
+					);
+					this.results.push({ file, previews, propertyChanges: [], totalCount: matches.length, included: true });
+				}
+			}
+
+			searching = false;
+			searchButtonComponent.setDisabled(false);
+			renderResults();
+		};
+
+		const performVaultReplacement = async () => {
+			const [searchString, replaceString] = getSearchStrings();
+			const includedResults = this.results.filter(r => r.included);
+			if (!searchString || includedResults.length === 0) return;
+
+			const totalCount = includedResults.reduce((sum, r) => sum + r.totalCount, 0);
+			if (this.settings.confirmLargeReplace && totalCount >= this.settings.largeReplaceThreshold) {
+				const confirmed = confirm(
+					t('confirm.largeReplace', { count: totalCount, scope: t('vault.inFiles', { count: includedResults.length }) })
+				);
+				if (!confirmed) {
+					logger('Large replacement cancelled by user', 8);
+					return;
+				}
+			}
+
+			const regexFlags = buildRegexFlags(this.settings);
+			let replacements = 0;
+			let changedFiles = 0;
+			let timedOutFiles = 0;
+			let invalidPropertyFiles = 0;
+			for (const result of includedResults) {
+				// Re-read the file, it might have changed since the search
+				const text = await this.app.vault.read(result.file);
+				if (getProperty()) {
+					let edit: PropertyEdit | null = null;
+					try {
+						edit = await replacePropertyValues(
+							this.matchWorker,
+							text,
+							getProperty(),
+							searchString,
+							replaceString,
+							regToggleComponent.getValue(),
+							regexFlags,
+							this.settings.matchTimeout * 1000,
+							createReplacementContext(result.file.basename)
+						);
+					} catch (e) {
+						// The note changed since the search: its property is no longer valid YAML, or the pattern now runs too long on it
+						if (e instanceof MatchAbortedError) {
+							timedOutFiles++;
+							continue;
+						}
+						logger(`Could not replace in property of ${result.file.path}: ` + e, 0);
+						invalidPropertyFiles++;
+						continue;
+					}
+					if (edit && edit.changes.length > 0) {
+						await this.app.vault.modify(result.file, text.substring(0, edit.from) + edit.text + text.substring(edit.to));
+						replacements += edit.changes.length;
+						changedFiles++;
+					}
+					continue;
+				}
+				let replaced: { text: string; count: number };
+				try {
+					replaced = await replaceInText(
+						this.matchWorker,
+						text,
+						searchString,
+						replaceString,
+						regToggleComponent.getValue(),
+						regexFlags,
+						this.settings.matchTimeout * 1000,
+						createReplacementContext(result.file.basename)
+					);
+				} catch (e) {
+					// The file changed since the search and the pattern now runs too long on it
+					if (e instanceof MatchAbortedError) {
+						timedOutFiles++;
+						continue;
+					}
+					logger(`Could not replace in ${result.file.path}: ` + e, 0);
+					continue;
+				}
+				if (replaced.count > 0 && replaced.text !== text) {
+					await this.app.vault.modify(result.file, replaced.text);
+					replacements += replaced.count;
+					changedFiles++;
+				}
+			}
+
+			// Saving settings (find/replace text and toggle switch states)
+			this.settings.findText = findInputComponent.getValue();
+			this.settings.replaceText = replaceWithInputComponent.getValue();
+			this.settings.useRegEx = regToggleComponent.getValue();
+
+			if (replacements > 0) {
+				this.plugin.savePattern(
+					findInputComponent.getValue(),
+					replaceWithInputComponent.getValue(),
+					regToggleComponent.getValue(),
+					this.settings.caseInsensitive
+				);
+			}
+
+			await this.plugin.saveSettings();
+
+			this.close();
+			new Notice(t('notice.replacements', { count: replacements, scope: t('vault.inFiles', { count: changedFiles }) }));
+			if (timedOutFiles > 0) new Notice(t('vault.timedOutFiles', { count: timedOutFiles, seconds: this.settings.matchTimeout }));
+			if (invalidPropertyFiles > 0) new Notice(t('notice.invalidPropertyFiles', { count: invalidPropertyFiles, property: getProperty() }));
+		};
+
+		searchButtonComponent.onClick(() => runSearch());
+		submitButtonComponent.onClick(() => performVaultReplacement());
+
+		// Changing the search invalidates the results
+		const invalidateResults = () => {
+			this.results = [];
+			previewContentEl.empty();
+			previewTitleEl.setText(t('vault.pressSearchToUpdate'));
+			updateSubmitButton();
+		};
+		findInputComponent.inputEl.addEventListener('input', invalidateResults);
+		replaceWithInputComponent.inputEl.addEventListener('input', invalidateResults);
+		findInputComponent.inputEl.addEventListener('keydown', (e) => {
+			if (e.key === 'Enter') runSearch();
+		});
+		regToggleComponent.onChange(() => {
+			updateFlagsLabel();
+			invalidateResults();
+		});
+		scopeDropdownComponent.onChange((value) => {
+			this.settings.vaultScopeMode = value as VaultScopeMode;
+			updateScopePlaceholder();
+			invalidateResults();
+		});
+		scopeInputComponent.onChange((value) => {
+			this.settings.vaultScopeValue = value;
+			invalidateResults();
+		});
+		propertyInputComponent.onChange((value) => {
+			this.settings.vaultProperty = value;
+			invalidateResults();
+		});
+
+		// Apply settings
+		findInputComponent.setValue(this.settings.findText);
+		replaceWithInputComponent.setValue(this.settings.replaceText);
+		regToggleComponent.setValue(this.settings.useRegEx);
+		scopeDropdownComponent.setValue(this.settings.vaultScopeMode);
+		scopeInputComponent.setValue(this.settings.vaultScopeValue);
+		propertyInputComponent.setValue(this.settings.vaultProperty);
+		updateScopePlaceholder();
+		updateFlagsLabel();
+		updateSubmitButton();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.matchWorker.destroy();
+	}
+}
+
+// Applies a pattern to the names of notes, files or folders and renames them through the file manager,
+// which also updates the links to them if "Automatically update internal links" is on
+class RenameFilesModal extends Modal {
+	constructor(app: App, settings: RfrPluginSettings, plugin: RegexFindReplacePlugin) {
+		super(app);
+		this.settings = settings;
+		this.plugin = plugin;
+	}
+
+	settings: RfrPluginSettings;
+	plugin: RegexFindReplacePlugin;
+	plans: RenamePlan[] = [];
+	matchWorker = new MatchWorker();
+
+	collectItems(): TAbstractFile[] {
+		const folder = normalizePath(this.settings.renameFolder.trim()).replace(/^\/+|\/+$/g, '');
+		const inFolder = (item: TAbstractFile) => !folder || folder === '/' || item.path.startsWith(folder + '/');
+
+		if (this.settings.renameTarget === 'folders') {
+			return this.app.vault.getAllLoadedFiles()
+				.filter(item => item instanceof TFolder && item.path !== '/' && inFolder(item));
+		}
+		const files = this.settings.renameTarget === 'notes' ? this.app.vault.getMarkdownFiles() : this.app.vault.getFiles();
+		return files.filter(inFolder);
+	}
+
+	onOpen() {
+		const { contentEl, titleEl, modalEl } = this;
 
 		modalEl.addClass('find-replace-modal');
 		modalEl.style.width = '90vw';
 		modalEl.style.maxWidth = '1200px';
-		// @ts-ignore - __VERSION__ is replaced by rollup at build time
-		titleEl.setText('Regex Find/Replace v' + __VERSION__);
+		titleEl.setText(t('rename.title'));
+
+		// Create two-column layout
+		const mainContainer = document.createElement('div');
+		mainContainer.style.display = 'flex';
+		mainContainer.style.gap = '1.5em';
+		mainContainer.style.alignItems = 'flex-start';
+
+		const leftColumn = document.createElement('div');
+		leftColumn.style.flex = '0 0 400px';
+		leftColumn.style.minWidth = '350px';
+
+		const rightColumn = document.createElement('div');
+		rightColumn.style.flex = '1';
+		rightColumn.style.minWidth = '300px';
+
+		mainContainer.appendChild(leftColumn);
+		mainContainer.appendChild(rightColumn);
+		contentEl.appendChild(mainContainer);
+
+		const [findInputComponent, flagsLabelEl] = createTextRow(leftColumn, t('label.find'), t('placeholder.find'));
+		const [replaceWithInputComponent] = createTextRow(leftColumn, t('label.replace'), t('placeholder.replace'));
+		const regToggleComponent = createToggleRow(leftColumn, t('toggle.useRegex'), t('toggle.useRegexTooltip'));
+
+		const updateFlagsLabel = () => {
+			flagsLabelEl.setText(regToggleComponent.getValue() ? '/' + buildRegexFlags(this.settings) : '');
+		};
+
+		// Create target and folder selectors
+		const targetContainerEl = document.createElement('div');
+		targetContainerEl.addClass('row');
+		const targetLabelEl = document.createElement('div');
+		targetLabelEl.addClass('input-label');
+		targetLabelEl.setText(t('rename.target'));
+		const targetDropdownEl = document.createElement('div');
+		const targetDropdownComponent = new DropdownComponent(targetDropdownEl);
+		targetDropdownComponent.addOption('notes', t('rename.notes'));
+		targetDropdownComponent.addOption('files', t('rename.files'));
+		targetDropdownComponent.addOption('folders', t('rename.folders'));
+		targetContainerEl.appendChild(targetLabelEl);
+		targetContainerEl.appendChild(targetDropdownEl);
+		leftColumn.appendChild(targetContainerEl);
+
+		const [folderInputComponent] = createTextRow(leftColumn, t('rename.inFolder'), t('vault.folderPlaceholder'));
+
+		const hintEl = document.createElement('div');
+		hintEl.addClass('setting-item-description');
+		hintEl.style.marginTop = '0.5em';
+		hintEl.setText(t('rename.hint'));
+		leftColumn.appendChild(hintEl);
+
+		// Create preview section (right column)
+		const previewTitleEl = document.createElement('div');
+		previewTitleEl.addClass('preview-title');
+		previewTitleEl.style.fontWeight = 'bold';
+		previewTitleEl.style.marginBottom = '0.5em';
+		previewTitleEl.style.fontSize = '1.1em';
+		previewTitleEl.style.paddingBottom = '0.5em';
+		previewTitleEl.style.borderBottom = '1px solid var(--background-modifier-border)';
+		previewTitleEl.setText(t('rename.pressPreview'));
+
+		const previewContentEl = document.createElement('div');
+		previewContentEl.addClass('preview-content');
+		previewContentEl.style.fontSize = '0.9em';
+		previewContentEl.style.maxHeight = '60vh';
+		previewContentEl.style.overflowY = 'auto';
+		previewContentEl.style.padding = '0.5em';
+		previewContentEl.style.backgroundColor = 'var(--background-secondary)';
+		previewContentEl.style.borderRadius = '4px';
+		previewContentEl.style.marginTop = '0.5em';
+
+		rightColumn.appendChild(previewTitleEl);
+		rightColumn.appendChild(previewContentEl);
+
+		// Create Buttons
+		const buttonContainerEl = document.createElement('div');
+		buttonContainerEl.addClass('row');
+		buttonContainerEl.style.marginTop = '1em';
+
+		const previewButtonTarget = document.createElement('div');
+		previewButtonTarget.addClass('button-wrapper');
+		previewButtonTarget.addClass('row');
+
+		const submitButtonTarget = document.createElement('div');
+		submitButtonTarget.addClass('button-wrapper');
+		submitButtonTarget.addClass('row');
+
+		const cancelButtonTarget = document.createElement('div');
+		cancelButtonTarget.addClass('button-wrapper');
+		cancelButtonTarget.addClass('row');
+
+		buttonContainerEl.appendChild(previewButtonTarget);
+		buttonContainerEl.appendChild(submitButtonTarget);
+		buttonContainerEl.appendChild(cancelButtonTarget);
+		leftColumn.appendChild(buttonContainerEl);
+
+		const previewButtonComponent = new ButtonComponent(previewButtonTarget);
+		const submitButtonComponent = new ButtonComponent(submitButtonTarget);
+		const cancelButtonComponent = new ButtonComponent(cancelButtonTarget);
+
+		previewButtonComponent.setButtonText(t('rename.preview'));
+		submitButtonComponent.setButtonText(t('rename.renameItems', { count: 0 }));
+		submitButtonComponent.setCta();
+		submitButtonComponent.setDisabled(true);
+		cancelButtonComponent.setButtonText(t('button.cancel'));
+		cancelButtonComponent.onClick(() => {
+			logger('Action cancelled.', 8);
+			this.close();
+		});
+
+		const getRenamablePlans = () => this.plans.filter(plan => plan.included && !plan.conflict);
+
+		// A preview stopped by a timeout or an error misses the renames of the remaining items,
+		// so nothing is renamed until the preview is run again
+		let previewComplete = true;
+		// Enter in the find field can start a preview while a preview or the renames run; both use this.plans
+		let running = false;
+
+		const updateSubmitButton = () => {
+			const count = getRenamablePlans().length;
+			submitButtonComponent.setButtonText(t('rename.renameItems', { count }));
+			submitButtonComponent.setDisabled(count === 0 || !previewComplete || running);
+		};
+
+		const renderPlans = () => {
+			findRenameConflicts(this.plans, new Set(this.app.vault.getAllLoadedFiles().map(item => item.path.toLowerCase())));
+			previewContentEl.empty();
+			const incompleteNote = previewComplete ? '' : t('preview.incomplete');
+			if (this.plans.length === 0) {
+				previewTitleEl.setText(t('rename.noChanges') + incompleteNote);
+				updateSubmitButton();
+				return;
+			}
+			const conflictCount = this.plans.filter(plan => plan.conflict).length;
+			previewTitleEl.setText(t('rename.count', { count: this.plans.length })
+				+ (conflictCount > 0 ? t('rename.conflicts', { count: conflictCount }) : '') + incompleteNote);
+
+			this.plans.forEach(plan => {
+				const itemEl = document.createElement('label');
+				itemEl.addClass('rfr-rename-item');
+				if (plan.conflict) itemEl.addClass('has-conflict');
+				itemEl.style.opacity = plan.included ? '1' : '0.4';
+
+				const checkboxEl = document.createElement('input');
+				checkboxEl.type = 'checkbox';
+				checkboxEl.checked = plan.included;
+				checkboxEl.onchange = () => {
+					plan.included = checkboxEl.checked;
+					// Leaving out one rename can resolve the conflicts of another
+					renderPlans();
+				};
+
+				const pathsEl = document.createElement('div');
+				const oldPathEl = document.createElement('div');
+				oldPathEl.addClass('rfr-rename-old');
+				oldPathEl.setText('− ' + plan.item.path);
+				const newPathEl = document.createElement('div');
+				newPathEl.addClass('rfr-rename-new');
+				newPathEl.setText('+ ' + plan.newPath);
+				pathsEl.appendChild(oldPathEl);
+				pathsEl.appendChild(newPathEl);
+				if (plan.conflict) {
+					const conflictEl = document.createElement('div');
+					conflictEl.addClass('rfr-rename-conflict');
+					conflictEl.setText('⚠ ' + plan.conflict);
+					pathsEl.appendChild(conflictEl);
+				}
+
+				itemEl.appendChild(checkboxEl);
+				itemEl.appendChild(pathsEl);
+				previewContentEl.appendChild(itemEl);
+			});
+			updateSubmitButton();
+		};
+
+		const runPreview = async () => {
+			if (running) return;
+			const searchString = processEscapeSequences(findInputComponent.getValue(), this.settings);
+			const replaceString = processEscapeSequences(replaceWithInputComponent.getValue(), this.settings);
+			if (!searchString) {
+				new Notice(t('notice.nothingToSearch'));
+				return;
+			}
+
+			const items = this.collectItems();
+			logger(`Matching the names of ${items.length} item(s)`, 8);
+			previewTitleEl.setText(t('rename.searching', { count: items.length }));
+			previewContentEl.empty();
+			running = true;
+			previewButtonComponent.setDisabled(true);
+			submitButtonComponent.setDisabled(true);
+
+			this.plans = [];
+			previewComplete = true;
+			const regexFlags = buildRegexFlags(this.settings);
+			for (const item of items) {
+				const oldName = getRenameName(item);
+				let matches: TextMatch[];
+				try {
+					matches = await findMatchesInWorker(
+						this.matchWorker,
+						oldName,
+						searchString,
+						regToggleComponent.getValue(),
+						regexFlags,
+						this.settings.matchTimeout * 1000
+					);
+				} catch (e) {
+					if (e instanceof MatchAbortedError) {
+						if (e.reason === 'timeout') new Notice(t('notice.matchTimeout', { seconds: this.settings.matchTimeout }));
+					} else {
+						logger('Invalid regex pattern: ' + e, 0);
+						new Notice(t('notice.invalidRegex'));
+					}
+					previewComplete = false;
+					break;
+				}
+				if (matches.length === 0) continue;
+
+				const newName = replaceMatches(oldName, matches, replaceString, regToggleComponent.getValue(), createReplacementContext(oldName));
+				if (newName === oldName) continue;
+				this.plans.push({ item, oldName, newName, newPath: buildRenamedPath(item, newName), conflict: '', included: true });
+			}
+			this.plans.sort((a, b) => a.item.path.localeCompare(b.item.path));
+
+			running = false;
+			previewButtonComponent.setDisabled(false);
+			renderPlans();
+		};
+
+		const performRename = async () => {
+			const plans = getRenamablePlans();
+			if (running || plans.length === 0) return;
+
+			if (this.settings.confirmLargeReplace && plans.length >= this.settings.largeReplaceThreshold) {
+				if (!confirm(t('rename.confirm', { count: plans.length }))) {
+					logger('Large rename cancelled by user', 8);
+					return;
+				}
+			}
+
+			running = true;
+			previewButtonComponent.setDisabled(true);
+			submitButtonComponent.setDisabled(true);
+			let renamed = 0;
+			let failed = 0;
+			for (const plan of plans) {
+				const newPath = buildRenamedPath(plan.item, plan.newName);
+				try {
+					await this.app.fileManager.renameFile(plan.item, newPath);
+					logger(`Renamed ${plan.item.path} to ${newPath}`, 8);
+					renamed++;
+				} catch (e) {
+					logger(`Could not rename to ${newPath}: ` + e, 0);
+					failed++;
+				}
+			}
+
+			// Saving settings (find/replace text and toggle switch states)
+			this.settings.findText = findInputComponent.getValue();
+			this.settings.replaceText = replaceWithInputComponent.getValue();
+			this.settings.useRegEx = regToggleComponent.getValue();
+			await this.plugin.saveSettings();
+
+			this.close();
+			new Notice(t('rename.done', { count: renamed }) + (failed > 0 ? t('rename.failed', { count: failed }) : ''));
+		};
+
+		previewButtonComponent.onClick(() => runPreview());
+		submitButtonComponent.onClick(() => performRename());
+
+		// Changing the pattern or the selection of items invalidates the preview
+		const invalidatePlans = () => {
+			this.plans = [];
+			previewContentEl.empty();
+			previewTitleEl.setText(t('rename.pressPreviewToUpdate'));
+			updateSubmitButton();
+		};
+		findInputComponent.inputEl.addEventListener('input', invalidatePlans);
+		replaceWithInputComponent.inputEl.addEventListener('input', invalidatePlans);
+		findInputComponent.inputEl.addEventListener('keydown', (e) => {
+			if (e.key === 'Enter') runPreview();
+		});
+		regToggleComponent.onChange(() => {
+			updateFlagsLabel();
+			invalidatePlans();
+		});
+		targetDropdownComponent.onChange((value) => {
+			this.settings.renameTarget = value as RenameTarget;
+			invalidatePlans();
+		});
+		folderInputComponent.onChange((value) => {
+			this.settings.renameFolder = value;
+			invalidatePlans();
+		});
+
+		// Apply settings
+		findInputComponent.setValue(this.settings.findText);
+		replaceWithInputComponent.setValue(this.settings.replaceText);
+		regToggleComponent.setValue(this.settings.useRegEx);
+		targetDropdownComponent.setValue(this.settings.renameTarget);
+		folderInputComponent.setValue(this.settings.renameFolder);
+		updateFlagsLabel();
+		findInputComponent.inputEl.focus();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.matchWorker.destroy();
+	}
+}
+
+// Lists the formatting issues of a note, so they can be reviewed and fixed one by one
+class FormatIssuesModal extends Modal {
+	constructor(app: App, editor: Editor, settings: RfrPluginSettings) {
+		super(app);
+		this.editor = editor;
+		this.settings = settings;
+	}
+
+	editor: Editor;
+	settings: RfrPluginSettings;
+
+	onOpen() {
+		const { contentEl, titleEl, modalEl } = this;
+
+		modalEl.addClass('find-replace-modal');
+		modalEl.style.width = '80vw';
+		modalEl.style.maxWidth = '900px';
+
+		const issuesEl = document.createElement('div');
+		issuesEl.addClass('preview-content');
+		issuesEl.style.fontSize = '0.9em';
+		issuesEl.style.maxHeight = '60vh';
+		issuesEl.style.overflowY = 'auto';
+		issuesEl.style.padding = '0.5em';
+		issuesEl.style.backgroundColor = 'var(--background-secondary)';
+		issuesEl.style.borderRadius = '4px';
+		contentEl.appendChild(issuesEl);
+
+		const buttonContainerEl = document.createElement('div');
+		buttonContainerEl.addClass('row');
+		buttonContainerEl.style.marginTop = '1em';
+
+		const fixAllButtonTarget = document.createElement('div');
+		fixAllButtonTarget.addClass('button-wrapper');
+		fixAllButtonTarget.addClass('row');
+
+		const closeButtonTarget = document.createElement('div');
+		closeButtonTarget.addClass('button-wrapper');
+		closeButtonTarget.addClass('row');
+
+		buttonContainerEl.appendChild(fixAllButtonTarget);
+		buttonContainerEl.appendChild(closeButtonTarget);
+		contentEl.appendChild(buttonContainerEl);
+
+		const fixAllButtonComponent = new ButtonComponent(fixAllButtonTarget);
+		const closeButtonComponent = new ButtonComponent(closeButtonTarget);
+
+		fixAllButtonComponent.setButtonText(t('format.fixAll'));
+		fixAllButtonComponent.setCta();
+		closeButtonComponent.setButtonText(t('button.close'));
+		closeButtonComponent.onClick(() => this.close());
+
+		const renderLine = (line: string): string => {
+			if (line === '') return `<span style="opacity: 0.5;">${t('format.blankLine')}</span>`;
+			// Trailing whitespace is made visible, it is what some rules remove
+			const trailing = (line.match(/[ \t]+$/) || [''])[0];
+			// The text is cut before the markup is added, so a tag is never cut
+			return escapeHtml(truncateWithEllipsis(line.substring(0, line.length - trailing.length), 220))
+				+ `<span style="opacity: 0.5;">${trailing.replace(/ /g, '·').replace(/\t/g, '→')}</span>`;
+		};
+
+		const jumpToIssue = (issue: FormatIssue) => {
+			const from = { line: issue.edit.fromLine, ch: 0 };
+			this.editor.setCursor(from);
+			this.editor.scrollIntoView({ from, to: from }, true);
+			this.close();
+		};
 
-		const rowClass = 'row';
-		const divClass = 'div';
-		const noSelection = editor.getSelection() === '';
-		const buildRegexFlags = () => {
-			let flags = 'g';
-			if (this.settings.multilineMatch) flags += 'm';
-			if (this.settings.caseInsensitive) flags += 'i';
-			return flags;
+		const fixIssue = (issue: FormatIssue) => {
+			const lastLine = issue.edit.toLine - 1;
+			this.editor.replaceRange(
+				issue.edit.lines.join('\n'),
+				{ line: issue.edit.fromLine, ch: 0 },
+				{ line: lastLine, ch: this.editor.getLine(lastLine).length }
+			);
+			logger(`Fixed ${issue.rule.id} in line ${issue.edit.fromLine + 1}`, 8);
+			render();
 		};
-		let regexFlags = buildRegexFlags();
 
-		logger('No text selected?: ' + noSelection, 9);
+		const render = () => {
+			// Issues are computed again after each fix, since a fix can move or resolve others
+			const issues = checkMarkdownFormatting(this.editor.getValue(), this.settings);
+			titleEl.setText(issues.length > 0
+				? t('format.issues', { count: issues.length })
+				: t('format.noIssuesTitle'));
+			fixAllButtonComponent.setDisabled(issues.length === 0);
+			issuesEl.empty();
+
+			issues.forEach(issue => {
+				const cardEl = document.createElement('div');
+				cardEl.addClass('match-card');
+				cardEl.addClass('format-issue');
+				cardEl.style.marginBottom = '0.8em';
+				cardEl.style.padding = '0.5em';
+				cardEl.style.borderLeft = '3px solid var(--interactive-accent)';
+				cardEl.style.background = 'var(--background-secondary-alt)';
+				cardEl.style.cursor = 'pointer';
+				cardEl.setAttribute('aria-label', t('format.goToLine'));
+				cardEl.onclick = () => jumpToIssue(issue);
+
+				const headerEl = document.createElement('div');
+				headerEl.style.display = 'flex';
+				headerEl.style.alignItems = 'center';
+				headerEl.style.fontSize = '0.85em';
+				headerEl.style.color = 'var(--text-muted)';
+				headerEl.style.marginBottom = '0.3em';
+
+				const labelEl = document.createElement('span');
+				labelEl.style.flex = '1';
+				labelEl.setText(`${t('preview.line', { line: issue.edit.fromLine + 1 })} · ${issue.rule.name()}`);
+
+				const fixButtonTarget = document.createElement('span');
+				const fixButtonComponent = new ButtonComponent(fixButtonTarget);
+				fixButtonComponent.setButtonText(t('format.fix'));
+				fixButtonComponent.buttonEl.onclick = (e: MouseEvent) => {
+					e.stopPropagation();
+					fixIssue(issue);
+				};
 
-		let findInputComponent: TextComponent;
-		let replaceWithInputComponent: TextComponent;
-		let regToggleComponent: ToggleComponent;
+				headerEl.appendChild(labelEl);
+				headerEl.appendChild(fixButtonTarget);
 
-		// Create two-column layout
-		const mainContainer = document.createElement(divClass);
-		mainContainer.style.display = 'flex';
-		mainContainer.style.gap = '1.5em';
-		mainContainer.style.alignItems = 'flex-start';
+				const diffEl = document.createElement('div');
+				diffEl.style.fontFamily = 'var(--font-monospace)';
+				diffEl.style.fontSize = '0.9em';
+				diffEl.style.lineHeight = '1.6';
+				let diffHtml = '';
+				issue.before.forEach(line => {
+					diffHtml += `<div style="color: var(--text-error);"><span style="opacity: 0.6; margin-right: 0.5em;">−</span>${renderLine(line)}</div>`;
+				});
+				issue.edit.lines.forEach(line => {
+					diffHtml += `<div style="color: var(--text-success);"><span style="opacity: 0.6; margin-right: 0.5em;">+</span>${renderLine(line)}</div>`;
+				});
+				diffEl.innerHTML = diffHtml;
 
-		const leftColumn = document.createElement(divClass);
-		leftColumn.style.flex = '0 0 400px';
-		leftColumn.style.minWidth = '350px';
+				cardEl.appendChild(headerEl);
+				cardEl.appendChild(diffEl);
+				issuesEl.appendChild(cardEl);
+			});
+		};
 
-		const rightColumn = document.createElement(divClass);
-		rightColumn.style.flex = '1';
-		rightColumn.style.minWidth = '300px';
+		fixAllButtonComponent.onClick(() => {
+			const doc = this.editor.getValue();
+			const { text, stats } = fixMarkdownFormatting(doc, this.settings);
+			if (text !== doc) this.editor.setValue(text);
+			new Notice(stats.map(s => `${s.label} ${s.count}`).join(' · ') || t('format.applied'));
+			this.close();
+		});
 
-		mainContainer.appendChild(leftColumn);
-		mainContainer.appendChild(rightColumn);
-		contentEl.appendChild(mainContainer);
+		render();
+	}
 
-		const addTextComponent = (label: string, placeholder: string, postfix=''): [TextComponent, HTMLDivElement] => {
-			const containerEl = document.createElement(divClass);
-			containerEl.addClass(rowClass);
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
 
-			const targetEl = document.createElement(divClass);
-			targetEl.addClass('input-wrapper');
+// Browse, search and edit the saved patterns
+class PatternManagerModal extends Modal {
+	constructor(app: App, plugin: RegexFindReplacePlugin, onClosed: () => void = () => {}) {
+		super(app);
+		this.plugin = plugin;
+		this.onClosed = onClosed;
+	}
 
-			const labelEl = document.createElement(divClass);
-			labelEl.addClass('input-label');
-			labelEl.setText(label);
+	plugin: RegexFindReplacePlugin;
+	onClosed: () => void;
+	selectedId = '';
+	searchQuery = '';
+	tagFilter = '';
+
+	// Edits are saved after a short pause, so typing does not rewrite the library file on every key
+	requestSave = debounce(() => this.plugin.saveSettings(), 500, true);
+	// Number of failing tests by pattern id, so that the list does not run every test on each render
+	failedTests: { [id: string]: number } = {};
+	// The tests of the list and of the edited pattern run in their own workers, so they do not cancel each other
+	listWorker = new MatchWorker();
+	testWorker = new MatchWorker();
+
+	getAllTags(): string[] {
+		const tags: string[] = [];
+		this.plugin.settings.savedPatterns.forEach(pattern => {
+			pattern.tags.forEach(tag => {
+				if (tags.indexOf(tag) === -1) tags.push(tag);
+			});
+		});
+		return tags.sort((a, b) => a.localeCompare(b));
+	}
 
-			const labelEl2 = document.createElement(divClass);
-			labelEl2.addClass('postfix-label');
-			labelEl2.setText(postfix);
+	getFilteredPatterns(): RegexPattern[] {
+		const query = this.searchQuery.trim().toLowerCase();
+		return [...this.plugin.settings.savedPatterns]
+			.filter(pattern => !this.tagFilter || pattern.tags.indexOf(this.tagFilter) !== -1)
+			.filter(pattern => !query || [pattern.name, pattern.description, pattern.findText, pattern.replaceText, ...pattern.tags]
+				.some(field => field.toLowerCase().indexOf(query) !== -1))
+			.sort((a, b) => {
+				if (a.isPinned !== b.isPinned) return a.isPinned ? -1 : 1;
+				return a.name.localeCompare(b.name);
+			});
+	}
 
-			containerEl.appendChild(labelEl);
-			containerEl.appendChild(targetEl);
-			containerEl.appendChild(labelEl2);
+	onOpen() {
+		const { contentEl, titleEl, modalEl } = this;
 
-			const component = new TextComponent(targetEl);
-			component.setPlaceholder(placeholder);
+		modalEl.addClass('find-replace-modal');
+		modalEl.style.width = '90vw';
+		modalEl.style.maxWidth = '1100px';
+		titleEl.setText(t('manager.title'));
 
-			leftColumn.append(containerEl);
-			return [component, labelEl2];
-		};
+		const mainContainer = document.createElement('div');
+		mainContainer.style.display = 'flex';
+		mainContainer.style.gap = '1.5em';
+		mainContainer.style.alignItems = 'flex-start';
 
-		// Create interactive regex flags component
-		const createFlagsComponent = (container: HTMLDivElement) => {
-			container.empty();
-			container.style.fontFamily = 'var(--font-monospace)';
-			container.style.cursor = 'pointer';
-			container.style.userSelect = 'none';
-
-			const slash = document.createElement('span');
-			slash.setText('/');
-			slash.style.opacity = '0.5';
-			container.appendChild(slash);
-
-			const createFlag = (flag: string, enabled: boolean, tooltip: string, onClick: () => void) => {
-				const span = document.createElement('span');
-				span.setText(flag);
-				span.style.opacity = enabled ? '1' : '0.3';
-				span.style.textDecoration = enabled ? 'none' : 'line-through';
-				span.style.padding = '0 1px';
-				span.title = tooltip;
-				span.onclick = (e) => {
-					e.stopPropagation();
-					onClick();
-				};
-				span.onmouseenter = () => { span.style.color = 'var(--interactive-accent)'; };
-				span.onmouseleave = () => { span.style.color = ''; };
-				return span;
-			};
+		const leftColumn = document.createElement('div');
+		leftColumn.style.flex = '0 0 320px';
+		leftColumn.style.minWidth = '260px';
 
-			// g is always on (not clickable)
-			const gSpan = document.createElement('span');
-			gSpan.setText('g');
-			gSpan.title = 'Global (always on)';
-			gSpan.style.opacity = '0.7';
-			container.appendChild(gSpan);
-
-			container.appendChild(createFlag('m', this.settings.multilineMatch,
-				'Multiline: ^ and $ match line boundaries',
-				() => {
-					this.settings.multilineMatch = !this.settings.multilineMatch;
-					this.plugin.saveData(this.settings);
-					updateFlagsDisplay();
-					updatePreview();
-				}));
+		const rightColumn = document.createElement('div');
+		rightColumn.style.flex = '1';
+		rightColumn.style.minWidth = '300px';
 
-			container.appendChild(createFlag('i', this.settings.caseInsensitive,
-				'Case insensitive',
-				() => {
-					this.settings.caseInsensitive = !this.settings.caseInsensitive;
-					this.plugin.saveData(this.settings);
-					updateFlagsDisplay();
-					updatePreview();
-				}));
+		mainContainer.appendChild(leftColumn);
+		mainContainer.appendChild(rightColumn);
+		contentEl.appendChild(mainContainer);
+
+		// Search and tag filter
+		const searchEl = document.createElement('div');
+		searchEl.addClass('input-wrapper');
+		const searchComponent = new TextComponent(searchEl);
+		searchComponent.setPlaceholder(t('manager.search'));
+		searchComponent.inputEl.style.width = '100%';
+		leftColumn.appendChild(searchEl);
+
+		const tagFilterEl = document.createElement('div');
+		tagFilterEl.style.marginTop = '0.5em';
+		const tagFilterComponent = new DropdownComponent(tagFilterEl);
+		leftColumn.appendChild(tagFilterEl);
+
+		const listEl = document.createElement('div');
+		listEl.addClass('rfr-pattern-list');
+		leftColumn.appendChild(listEl);
+
+		const updateTagFilter = () => {
+			const tags = this.getAllTags();
+			if (this.tagFilter && tags.indexOf(this.tagFilter) === -1) this.tagFilter = '';
+			tagFilterComponent.selectEl.empty();
+			tagFilterComponent.addOption('', t('manager.allTags'));
+			tags.forEach(tag => tagFilterComponent.addOption(tag, '#' + tag));
+			tagFilterComponent.setValue(this.tagFilter);
+			tagFilterEl.style.display = tags.length > 0 ? '' : 'none';
 		};
 
-		let flagsContainer: HTMLDivElement;
-		const updateFlagsDisplay = () => {
-			if (flagsContainer && regToggleComponent?.getValue()) {
-				createFlagsComponent(flagsContainer);
-			} else if (flagsContainer) {
-				flagsContainer.empty();
+		const renderList = () => {
+			listEl.empty();
+			const patterns = this.getFilteredPatterns();
+			if (patterns.length === 0) {
+				const emptyEl = document.createElement('div');
+				emptyEl.style.color = 'var(--text-muted)';
+				emptyEl.style.padding = '0.5em';
+				emptyEl.setText(this.plugin.settings.savedPatterns.length === 0 ? t('settings.noPatterns') : t('manager.noResults'));
+				listEl.appendChild(emptyEl);
+				return;
 			}
-		};
 
-		const addToggleComponent = (label: string, tooltip: string, hide = false): ToggleComponent => {
-			const containerEl = document.createElement(divClass);
-			containerEl.addClass(rowClass);
+			patterns.forEach(pattern => {
+				const itemEl = document.createElement('div');
+				itemEl.addClass('rfr-pattern-item');
+				if (pattern.id === this.selectedId) itemEl.addClass('is-selected');
+				itemEl.onclick = () => {
+					this.selectedId = pattern.id;
+					renderList();
+					renderEditor();
+				};
+
+				const nameEl = document.createElement('div');
+				nameEl.addClass('rfr-pattern-name');
+				nameEl.setText((pattern.isPinned ? '⭐ ' : '') + pattern.name);
+				const failedCount = this.failedTests[pattern.id] ?? 0;
+				if (failedCount > 0) {
+					const failedEl = document.createElement('span');
+					failedEl.addClass('rfr-test-failed');
+					failedEl.setText(' ✗ ' + t('tests.failedCount', { count: failedCount }));
+					nameEl.appendChild(failedEl);
+				}
 
-			const targetEl = document.createElement(divClass);
-			targetEl.addClass(rowClass);
+				const detailEl = document.createElement('div');
+				detailEl.addClass('rfr-suggestion-detail');
+				detailEl.setText(pattern.description || `${pattern.findText} → ${pattern.replaceText}`);
 
-			const component = new ToggleComponent(targetEl);
-			component.setTooltip(tooltip);
+				itemEl.appendChild(nameEl);
+				itemEl.appendChild(detailEl);
 
-			const labelEl = document.createElement(divClass);
-			labelEl.addClass('check-label');
-			labelEl.setText(label);
+				if (pattern.tags.length > 0) {
+					const tagsEl = document.createElement('div');
+					pattern.tags.forEach(tag => {
+						const tagEl = document.createElement('span');
+						tagEl.addClass('rfr-pattern-tag');
+						tagEl.setText('#' + tag);
+						tagsEl.appendChild(tagEl);
+					});
+					itemEl.appendChild(tagsEl);
+				}
 
-			containerEl.appendChild(labelEl);
-			containerEl.appendChild(targetEl);
-			if (!hide) leftColumn.appendChild(containerEl);
-			return component;
+				listEl.appendChild(itemEl);
+			});
 		};
 
-		// Create saved patterns dropdown
-		if (this.settings.savedPatterns.length > 0) {
-			const patternContainerEl = document.createElement(divClass);
-			patternContainerEl.addClass(rowClass);
+		// Refreshes the list without touching the editor, so the edited field keeps the focus
+		const onPatternChanged = () => {
+			updateTagFilter();
+			renderList();
+			this.requestSave();
+		};
 
-			const labelEl = document.createElement(divClass);
-			labelEl.addClass('input-label');
-			labelEl.setText('Saved:');
+		const renderEditor = () => {
+			rightColumn.empty();
+			const pattern = this.plugin.settings.savedPatterns.find(p => p.id === this.selectedId);
+			if (!pattern) {
+				const emptyEl = document.createElement('div');
+				emptyEl.style.color = 'var(--text-muted)';
+				emptyEl.setText(t('manager.selectPattern'));
+				rightColumn.appendChild(emptyEl);
+				return;
+			}
 
-			const dropdownEl = document.createElement(divClass);
-			dropdownEl.addClass('input-wrapper');
+			let highlightFindInput: (enabled: boolean, error: RegexSyntaxError | null) => void;
 
-			const dropdownComponent = new DropdownComponent(dropdownEl);
-			dropdownComponent.addOption('', 'Select a saved pattern...');
+			new Setting(rightColumn)
+				.setName(t('manager.name'))
+				.addText(text => text
+					.setValue(pattern.name)
+					.onChange(value => {
+						pattern.name = value;
+						onPatternChanged();
+					}));
 
-			const sortedPatterns = [...this.settings.savedPatterns].sort((a, b) => {
-				if (a.isPinned !== b.isPinned) return a.isPinned ? -1 : 1;
-				return b.lastUsed - a.lastUsed;
-			});
+			new Setting(rightColumn)
+				.setName(t('manager.description'))
+				.addTextArea(text => text
+					.setValue(pattern.description)
+					.onChange(value => {
+						pattern.description = value;
+						onPatternChanged();
+					}));
 
-			sortedPatterns.forEach(pattern => {
-				const prefix = pattern.isPinned ? '⭐ ' : '';
-				const displayName = `${prefix}${pattern.name}`;
-				dropdownComponent.addOption(pattern.id, displayName);
-			});
+			new Setting(rightColumn)
+				.setName(t('manager.tags'))
+				.setDesc(t('manager.tagsDesc'))
+				.addText(text => text
+					.setValue(pattern.tags.join(', '))
+					.onChange(value => {
+						pattern.tags = parseTags(value);
+						onPatternChanged();
+					}));
 
-			patternContainerEl.appendChild(labelEl);
-			patternContainerEl.appendChild(dropdownEl);
-			leftColumn.appendChild(patternContainerEl);
+			new Setting(rightColumn)
+				.setName(t('settings.find'))
+				.addText(text => {
+					text
+						.setValue(pattern.findText)
+						.onChange(value => {
+							pattern.findText = value;
+							updateExplanation();
+							requestTestResults();
+							onPatternChanged();
+						});
+					text.inputEl.addClass('rfr-pattern-code');
+					highlightFindInput = attachRegexHighlighter(text.inputEl);
+				});
 
-			dropdownComponent.onChange((patternId) => {
-				if (!patternId) return;
-				const pattern = this.settings.savedPatterns.find(p => p.id === patternId);
-				if (pattern) {
-					findInputComponent.setValue(pattern.findText);
-					replaceWithInputComponent.setValue(pattern.replaceText);
-					regToggleComponent.setValue(pattern.useRegEx);
-					logger('Loaded saved pattern: ' + pattern.name, 9);
-				}
-			});
-		}
+			// Shared patterns are often edited by someone other than their author, so spell out what they match
+			const explanationEl = document.createElement('div');
+			explanationEl.addClass('regex-explanation');
+			rightColumn.appendChild(explanationEl);
+			const updateExplanation = () => {
+				const { error } = diagnoseFindReplace(pattern.findText, '', pattern.useRegEx, 'gm');
+				highlightFindInput(pattern.useRegEx, error);
+				const lineCount = pattern.useRegEx ? renderRegexExplanation(explanationEl, pattern.findText, true) : 0;
+				explanationEl.style.display = lineCount > 0 ? '' : 'none';
+			};
+			updateExplanation();
+
+			new Setting(rightColumn)
+				.setName(t('settings.replace'))
+				.addText(text => {
+					text
+						.setValue(pattern.replaceText)
+						.onChange(value => {
+							pattern.replaceText = value;
+							requestTestResults();
+							onPatternChanged();
+						});
+					text.inputEl.addClass('rfr-pattern-code');
+				});
 
-		// Create input fields
-		const escapeHints = [];
-		if (this.settings.processLineBreak) escapeHints.push('\\n=LF');
-		if (this.settings.processTab) escapeHints.push('\\t=TAB');
-		const escapeHintText = escapeHints.length > 0 ? escapeHints.join(' ') : '';
+			new Setting(rightColumn)
+				.setName(t('toggle.useRegex'))
+				.addToggle(toggle => toggle
+					.setValue(pattern.useRegEx)
+					.onChange(value => {
+						pattern.useRegEx = value;
+						updateExplanation();
+						requestTestResults();
+						onPatternChanged();
+					}));
 
-		const findRow = addTextComponent('Find:', 'e.g. (.*)');
-		findInputComponent = findRow[0];
-		flagsContainer = findRow[1];
-		if (this.settings.useRegEx) {
-			createFlagsComponent(flagsContainer);
-		}
-		const replaceRow = addTextComponent('Replace:', 'e.g. $1', escapeHintText);
-		replaceWithInputComponent = replaceRow[0];
+			new Setting(rightColumn)
+				.setName(t('settings.caseInsensitive'))
+				.addToggle(toggle => toggle
+					.setValue(pattern.caseInsensitive)
+					.onChange(value => {
+						pattern.caseInsensitive = value;
+						requestTestResults();
+						onPatternChanged();
+					}));
 
-		// Create and show regular expression toggle switch
-		regToggleComponent = addToggleComponent('Use regular expressions', 'If enabled, regular expressions in the find field are processed as such, and regex groups might be addressed in the replace field');
+			new Setting(rightColumn)
+				.setDesc(t('manager.usage', { count: pattern.useCount }))
+				.addButton(button => button
+					.setButtonText(pattern.isPinned ? t('settings.unpin') : t('settings.pin'))
+					.onClick(() => {
+						this.plugin.togglePinPattern(pattern.id);
+						renderList();
+						renderEditor();
+					}))
+				.addButton(button => button
+					.setButtonText(t('manager.duplicate'))
+					.onClick(() => {
+						this.selectedId = this.plugin.duplicatePattern(pattern.id).id;
+						renderList();
+						renderEditor();
+					}))
+				.addButton(button => button
+					.setButtonText(t('settings.delete'))
+					.setWarning()
+					.onClick(() => {
+						this.plugin.deletePattern(pattern.id);
+						this.selectedId = '';
+						updateTagFilter();
+						renderList();
+						renderEditor();
+					}));
 
-		// Create and show selection toggle switch only if any text is selected
-		const selToggleComponent = addToggleComponent('Replace only in selection', 'If enabled, replaces only occurances in the currently selected text', noSelection);
+			// Test cases, run again on every edit of the pattern or of a test
+			new Setting(rightColumn)
+				.setName(t('tests.title'))
+				.setDesc(t('tests.desc'))
+				.setHeading()
+				.addButton(button => button
+					.setButtonText(t('tests.add'))
+					.onClick(() => {
+						pattern.tests.push({ input: '', expected: '' });
+						renderTests();
+						onPatternChanged();
+					}));
 
-		// Create preview section (right column)
-		const previewContainerEl = document.createElement(divClass);
-		previewContainerEl.addClass('preview-container');
-		previewContainerEl.style.height = '100%';
-		previewContainerEl.style.display = 'flex';
-		previewContainerEl.style.flexDirection = 'column';
+			const testsEl = document.createElement('div');
+			rightColumn.appendChild(testsEl);
+			let resultEls: HTMLElement[] = [];
+
+			const updateTestResults = async () => {
+				let results: PatternTestResult[];
+				try {
+					results = await this.plugin.runPatternTests(pattern, this.testWorker);
+				} catch (e) {
+					// A newer run of the tests updates the results
+					return;
+				}
+				const failedCount = results.filter(result => !result.passed).length;
+				if (this.failedTests[pattern.id] !== failedCount) {
+					this.failedTests[pattern.id] = failedCount;
+					renderList();
+				}
+				results.forEach((result, index) => {
+					const resultEl = resultEls[index];
+					resultEl.empty();
+					const statusEl = document.createElement('div');
+					statusEl.addClass(result.passed ? 'rfr-test-passed' : 'rfr-test-failed');
+					statusEl.setText(result.passed ? '✓ ' + t('tests.passed')
+						: result.error ? '✗ ' + t('tests.error', { message: result.error })
+						: '✗ ' + t('tests.failed'));
+					resultEl.appendChild(statusEl);
+					if (!result.passed && !result.error) renderTestDiff(resultEl, pattern.tests[index].expected, result.actual);
+				});
+			};
 
-		const previewTitleEl = document.createElement(divClass);
-		previewTitleEl.addClass('preview-title');
-		previewTitleEl.style.fontWeight = 'bold';
-		previewTitleEl.style.marginBottom = '0.5em';
-		previewTitleEl.style.fontSize = '1.1em';
-		previewTitleEl.style.paddingBottom = '0.5em';
-		previewTitleEl.style.borderBottom = '1px solid var(--background-modifier-border)';
+			// Typing in the pattern or in a test only runs the tests again after a short pause
+			const requestTestResults = debounce(() => updateTestResults(), 300, true);
+
+			const renderTests = () => {
+				testsEl.empty();
+				resultEls = [];
+				pattern.tests.forEach((test, index) => {
+					const testEl = document.createElement('div');
+					testEl.addClass('rfr-pattern-test');
+
+					const headerEl = document.createElement('div');
+					headerEl.addClass('rfr-pattern-test-header');
+					const labelEl = document.createElement('span');
+					labelEl.setText(t('tests.testNumber', { number: index + 1 }));
+					headerEl.appendChild(labelEl);
+					new ButtonComponent(headerEl)
+						.setButtonText(t('settings.delete'))
+						.onClick(() => {
+							pattern.tests.splice(index, 1);
+							renderTests();
+							onPatternChanged();
+						});
+					testEl.appendChild(headerEl);
+
+					const fieldsEl = document.createElement('div');
+					fieldsEl.addClass('rfr-pattern-test-fields');
+					const addField = (placeholder: string, value: string, onChange: (value: string) => void) => {
+						const textArea = new TextAreaComponent(fieldsEl);
+						textArea.setPlaceholder(placeholder);
+						textArea.setValue(value);
+						textArea.inputEl.addClass('rfr-pattern-code');
+						textArea.onChange(newValue => {
+							onChange(newValue);
+							requestTestResults();
+							onPatternChanged();
+						});
+					};
+					addField(t('tests.input'), test.input, value => { test.input = value; });
+					addField(t('tests.expected'), test.expected, value => { test.expected = value; });
+					testEl.appendChild(fieldsEl);
+
+					const resultEl = document.createElement('div');
+					testEl.appendChild(resultEl);
+					resultEls.push(resultEl);
+					testsEl.appendChild(testEl);
+				});
+				updateTestResults();
+			};
+			renderTests();
+		};
 
-		const previewContentEl = document.createElement(divClass);
-		previewContentEl.addClass('preview-content');
-		previewContentEl.style.fontSize = '0.9em';
-		previewContentEl.style.flex = '1';
-		previewContentEl.style.overflowY = 'auto';
-		previewContentEl.style.padding = '0.5em';
-		previewContentEl.style.backgroundColor = 'var(--background-secondary)';
-		previewContentEl.style.borderRadius = '4px';
-		previewContentEl.style.marginTop = '0.5em';
+		searchComponent.onChange(value => {
+			this.searchQuery = value;
+			renderList();
+		});
+		tagFilterComponent.onChange(value => {
+			this.tagFilter = value;
+			renderList();
+		});
 
-		previewContainerEl.appendChild(previewTitleEl);
-		previewContainerEl.appendChild(previewContentEl);
+		updateTagFilter();
+		renderList();
+		renderEditor();
+		searchComponent.inputEl.focus();
+		this.countFailedTests(renderList);
+	}
 
-		if (this.settings.showPreview) {
-			rightColumn.appendChild(previewContainerEl);
+	// Runs the tests of all patterns once, the list is updated when they are done
+	async countFailedTests(onDone: () => void): Promise<void> {
+		for (const pattern of [...this.plugin.settings.savedPatterns]) {
+			if (pattern.tests.length === 0 || pattern.id in this.failedTests) continue;
+			try {
+				const results = await this.plugin.runPatternTests(pattern, this.listWorker);
+				this.failedTests[pattern.id] = results.filter(result => !result.passed).length;
+			} catch (e) {
+				return;
+			}
 		}
+		onDone();
+	}
 
-		let currentPreviewLimit = this.settings.previewLimit;
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.listWorker.destroy();
+		this.testWorker.destroy();
+		this.plugin.saveSettings();
+		this.onClosed();
+	}
+}
 
-		const updatePreview = (keepLimit = false) => {
-			if (!this.settings.showPreview) return;
+// Runs the tests of all saved patterns, failures first
+class PatternTestReportModal extends Modal {
+	constructor(app: App, plugin: RegexFindReplacePlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
 
-			let searchString = findInputComponent.getValue();
-			let replaceString = replaceWithInputComponent.getValue();
+	plugin: RegexFindReplacePlugin;
+	worker = new MatchWorker();
 
-			if (!searchString) {
-				previewTitleEl.setText('Preview: Enter search text');
-				previewContentEl.setText('');
-				currentPreviewLimit = this.settings.previewLimit;
+	async onOpen() {
+		const { contentEl, titleEl, modalEl } = this;
+		modalEl.addClass('find-replace-modal');
+		modalEl.style.width = '70vw';
+		modalEl.style.maxWidth = '900px';
+		titleEl.setText(t('tests.running'));
+
+		const entries: { pattern: RegexPattern, results: PatternTestResult[] }[] = [];
+		for (const pattern of this.plugin.settings.savedPatterns.filter(p => p.tests.length > 0)) {
+			try {
+				entries.push({ pattern, results: await this.plugin.runPatternTests(pattern, this.worker) });
+			} catch (e) {
+				// The modal was closed while the tests were running
 				return;
 			}
+		}
+		const tested = entries
+			.map(entry => ({ ...entry, failed: entry.results.filter(result => !result.passed).length }))
+			.sort((a, b) => (b.failed > 0 ? 1 : 0) - (a.failed > 0 ? 1 : 0) || a.pattern.name.localeCompare(b.pattern.name));
+
+		const failedCount = tested.reduce((sum, entry) => sum + entry.failed, 0);
+		const testCount = tested.reduce((sum, entry) => sum + entry.results.length, 0);
+		titleEl.setText(t('tests.reportTitle', { passed: testCount - failedCount, failed: failedCount }));
+		logger(`Pattern tests: ${testCount - failedCount} passed, ${failedCount} failed`, 8);
+
+		const reportEl = document.createElement('div');
+		reportEl.addClass('rfr-test-report');
+		contentEl.appendChild(reportEl);
+
+		if (tested.length === 0) {
+			const emptyEl = document.createElement('div');
+			emptyEl.style.color = 'var(--text-muted)';
+			emptyEl.setText(t('tests.noTests'));
+			reportEl.appendChild(emptyEl);
+		}
 
-			// Process escape sequences for preview
-			if (this.settings.processLineBreak) {
-				searchString = searchString.replace(/\\n/gm, '\n');
-				replaceString = replaceString.replace(/\\n/gm, '\n');
-			}
-			if (this.settings.processTab) {
-				searchString = searchString.replace(/\\t/gm, '\t');
-				replaceString = replaceString.replace(/\\t/gm, '\t');
-			}
-
-			// Reset limit when inputs change (unless explicitly keeping it)
-			if (!keepLimit) {
-				currentPreviewLimit = this.settings.previewLimit;
-			}
-
-			const targetText = selToggleComponent.getValue() && !noSelection
-				? editor.getSelection()
-				: editor.getValue();
-
-			const { previews, totalCount } = generateMatchPreviews(
-				targetText,
-				searchString,
-				replaceString,
-				regToggleComponent.getValue(),
-				this.settings.caseInsensitive,
-				this.settings.multilineMatch,
-				Math.min(currentPreviewLimit, 50) // Cap at 50 to prevent performance issues
-			);
-
-			if (totalCount === 0) {
-				previewTitleEl.setText('Preview: No matches found');
-				previewContentEl.setText('');
-			} else {
-				const scope = selToggleComponent.getValue() ? 'selection' : 'document';
-				previewTitleEl.setText(`Preview: ${totalCount} match${totalCount !== 1 ? 'es' : ''} in ${scope}`);
-
-				const escapeHtml = (text: string) => {
-					return text
-						.replace(/&/g, '&amp;')
-						.replace(/</g, '&lt;')
-						.replace(/>/g, '&gt;')
-						.replace(/"/g, '&quot;')
-						.replace(/'/g, '&#039;');
-				};
-
-				const truncateWithEllipsis = (text: string, maxLen: number) => {
-					if (text.length <= maxLen) return text;
-					return text.substring(0, maxLen - 3) + '...';
-				};
+		tested.forEach(({ pattern, results, failed }) => {
+			const cardEl = document.createElement('div');
+			cardEl.addClass('match-card');
+			cardEl.style.marginBottom = '0.8em';
+			cardEl.style.padding = '0.5em';
+			cardEl.style.borderLeft = `3px solid ${failed > 0 ? 'var(--text-error)' : 'var(--text-success)'}`;
+			cardEl.style.background = 'var(--background-secondary-alt)';
+
+			const headerEl = document.createElement('div');
+			headerEl.addClass('rfr-pattern-test-header');
+			const nameEl = document.createElement('span');
+			nameEl.addClass('rfr-pattern-name');
+			nameEl.setText(`${pattern.name} · ${t('tests.summary', { passed: results.length - failed, total: results.length })}`);
+			headerEl.appendChild(nameEl);
+			new ButtonComponent(headerEl)
+				.setButtonText(t('tests.edit'))
+				.onClick(() => {
+					this.close();
+					const manager = new PatternManagerModal(this.app, this.plugin);
+					manager.selectedId = pattern.id;
+					manager.open();
+				});
+			cardEl.appendChild(headerEl);
+
+			results.forEach((result, index) => {
+				const resultEl = document.createElement('div');
+				resultEl.addClass(result.passed ? 'rfr-test-passed' : 'rfr-test-failed');
+				resultEl.setText(`${result.passed ? '✓' : '✗'} ${t('tests.testNumber', { number: index + 1 })}`
+					+ (result.error ? ' · ' + t('tests.error', { message: result.error }) : ''));
+				cardEl.appendChild(resultEl);
+				if (!result.passed && !result.error) renderTestDiff(cardEl, pattern.tests[index].expected, result.actual);
+			});
 
-				let previewHtml = '';
-				previews.forEach(p => {
-					if (p.isMultiLine) {
-						// Handle multi-line matches specially
-						const displayMatch = truncateWithEllipsis(p.matchedText.replace(/\n/g, '↵'), 60);
-						const displayReplace = truncateWithEllipsis(p.replacementText.replace(/\n/g, '↵'), 60);
-
-						previewHtml += `<div style="margin-bottom: 0.8em; padding: 0.5em; border-left: 3px solid var(--interactive-accent); background: var(--background-secondary-alt);">`;
-						previewHtml += `<div style="font-size: 0.85em; color: var(--text-muted); margin-bottom: 0.3em;">Line ${p.lineNumber} <span style="color: var(--text-warning);">(跨行匹配)</span></div>`;
-						previewHtml += `<div style="font-family: var(--font-monospace); font-size: 0.9em;">`;
-						previewHtml += `<div style="color: var(--text-error); margin-bottom: 0.2em;"><span style="opacity: 0.6;">−</span> ${escapeHtml(displayMatch)}</div>`;
-						previewHtml += `<div style="color: var(--text-success);"><span style="opacity: 0.6;">+</span> ${escapeHtml(displayReplace)}</div>`;
-						previewHtml += `</div></div>`;
-					} else {
-						// Show full line context with highlighted match
-						const maxLineLen = 120;
-						let displayLine = truncateWithEllipsis(p.lineContent, maxLineLen);
-						let displayLineAfter = truncateWithEllipsis(p.lineAfterReplace, maxLineLen);
-
-						// Build highlighted before line
-						const beforePart = escapeHtml(p.lineContent.substring(0, p.matchStartInLine));
-						const matchPart = escapeHtml(p.lineContent.substring(p.matchStartInLine, p.matchEndInLine));
-						const afterPart = escapeHtml(p.lineContent.substring(p.matchEndInLine));
-
-						const highlightedBefore = truncateWithEllipsis(
-							beforePart + `<span style="background: var(--background-modifier-error); padding: 0 2px; border-radius: 2px;">${matchPart}</span>` + afterPart,
-							maxLineLen + 100 // Allow extra for HTML tags
-						);
+			reportEl.appendChild(cardEl);
+		});
 
-						// Build highlighted after line
-						const afterBeforePart = escapeHtml(p.lineAfterReplace.substring(0, p.matchStartInLine));
-						const replacePart = escapeHtml(p.replacementText);
-						const afterAfterPart = escapeHtml(p.lineAfterReplace.substring(p.matchStartInLine + p.replacementText.length));
+		const buttonContainerEl = document.createElement('div');
+		buttonContainerEl.addClass('row');
+		buttonContainerEl.addClass('button-wrapper');
+		new ButtonComponent(buttonContainerEl)
+			.setButtonText(t('button.close'))
+			.onClick(() => this.close());
+		contentEl.appendChild(buttonContainerEl);
+	}
 
-						const highlightedAfter = truncateWithEllipsis(
-							afterBeforePart + `<span style="background: var(--background-modifier-success); padding: 0 2px; border-radius: 2px;">${replacePart}</span>` + afterAfterPart,
-							maxLineLen + 100
-						);
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.worker.destroy();
+	}
+}
 
-						previewHtml += `<div style="margin-bottom: 0.8em; padding: 0.5em; border-left: 3px solid var(--interactive-accent); background: var(--background-secondary-alt);">`;
-						previewHtml += `<div style="font-size: 0.85em; color: var(--text-muted); margin-bottom: 0.3em;">Line ${p.lineNumber}</div>`;
-						previewHtml += `<div style="font-family: var(--font-monospace); font-size: 0.9em; line-height: 1.6;">`;
-						previewHtml += `<div style="margin-bottom: 0.2em;"><span style="opacity: 0.6; margin-right: 0.5em;">−</span>${highlightedBefore}</div>`;
-						previewHtml += `<div><span style="opacity: 0.6; margin-right: 0.5em;">+</span>${highlightedAfter}</div>`;
-						previewHtml += `</div></div>`;
-					}
-				});
+class PatternExportModal extends Modal {
+	constructor(app: App, plugin: RegexFindReplacePlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
 
-				previewContentEl.innerHTML = previewHtml;
+	plugin: RegexFindReplacePlugin;
 
-				// Add "Show more" button if there are more results
-				if (totalCount > previews.length) {
-					const showMoreBtn = document.createElement('button');
-					showMoreBtn.setText(`Show ${Math.min(totalCount - previews.length, 10)} more...`);
-					showMoreBtn.addClass('mod-cta');
-					showMoreBtn.style.marginTop = '0.5em';
-					showMoreBtn.style.width = '100%';
-					showMoreBtn.onclick = () => {
-						currentPreviewLimit += 10;
-						updatePreview(true);
-					};
-					previewContentEl.appendChild(showMoreBtn);
+	onOpen() {
+		const { contentEl, titleEl, modalEl } = this;
 
-					// Also show remaining count
-					const remainingText = document.createElement('div');
-					remainingText.style.fontStyle = 'italic';
-					remainingText.style.color = 'var(--text-muted)';
-					remainingText.style.marginTop = '0.5em';
-					remainingText.style.textAlign = 'center';
-					remainingText.style.fontSize = '0.9em';
-					remainingText.setText(`(${totalCount - previews.length} more matches)`);
-					previewContentEl.appendChild(remainingText);
-				}
-			}
-		};
+		modalEl.addClass('find-replace-modal');
+		titleEl.setText(t('library.exportTitle'));
 
-		// Add listeners to update preview
-		findInputComponent.inputEl.addEventListener('input', () => updatePreview());
-		replaceWithInputComponent.inputEl.addEventListener('input', () => updatePreview());
-		regToggleComponent.onChange(() => {
-			updatePreview();
-			updateFlagsDisplay();
-		});
-		selToggleComponent.onChange(() => updatePreview());
+		const formatContainerEl = document.createElement('div');
+		formatContainerEl.addClass('row');
 
-		// Create Buttons
-		const buttonContainerEl = document.createElement(divClass);
-		buttonContainerEl.addClass(rowClass);
+		const formatLabelEl = document.createElement('div');
+		formatLabelEl.addClass('input-label');
+		formatLabelEl.setText(t('library.format'));
 
-		const submitButtonTarget = document.createElement(divClass);
-		submitButtonTarget.addClass('button-wrapper');
-		submitButtonTarget.addClass(rowClass);
+		const formatDropdownEl = document.createElement('div');
+		const formatDropdownComponent = new DropdownComponent(formatDropdownEl);
+		formatDropdownComponent.addOption('json', 'JSON');
+		formatDropdownComponent.addOption('yaml', 'YAML');
 
-		const cancelButtonTarget = document.createElement(divClass);
-		cancelButtonTarget.addClass('button-wrapper');
-		cancelButtonTarget.addClass(rowClass);
+		formatContainerEl.appendChild(formatLabelEl);
+		formatContainerEl.appendChild(formatDropdownEl);
+		contentEl.appendChild(formatContainerEl);
 
-		const submitButtonComponent = new ButtonComponent(submitButtonTarget);
-		const cancelButtonComponent = new ButtonComponent(cancelButtonTarget);
-		
-		cancelButtonComponent.setButtonText('Cancel');
-		cancelButtonComponent.onClick(() => {
-			logger('Action cancelled.', 8);
-			this.close();
-		});
+		const outputEl = document.createElement('textarea');
+		outputEl.addClass('rfr-library-text');
+		outputEl.readOnly = true;
+		contentEl.appendChild(outputEl);
 
-		submitButtonComponent.setButtonText('Replace All');
-		submitButtonComponent.setCta();
+		const buttonContainerEl = document.createElement('div');
+		buttonContainerEl.addClass('row');
+		buttonContainerEl.style.marginTop = '1em';
 
-		const performReplacement = () => {
-			let resultString = 'No match';
-			let scope = '';
-			let searchString = findInputComponent.getValue();
-			let replaceString = replaceWithInputComponent.getValue();
-			const selectedText = editor.getSelection();
+		const copyButtonTarget = document.createElement('div');
+		copyButtonTarget.addClass('button-wrapper');
+		copyButtonTarget.addClass('row');
 
-			if (searchString === '') {
-				new Notice('Nothing to search for!');
-				return;
-			}
+		const closeButtonTarget = document.createElement('div');
+		closeButtonTarget.addClass('button-wrapper');
+		closeButtonTarget.addClass('row');
 
-			// Replace line breaks in find-field if option is enabled
-			if (this.settings.processLineBreak) {
-				logger('Replacing linebreaks in find-field', 9);
-				logger('  old: ' + searchString, 9);
-				searchString = searchString.replace(/\\n/gm, '\n');
-				logger('  new: ' + searchString, 9);
-			}
+		buttonContainerEl.appendChild(copyButtonTarget);
+		buttonContainerEl.appendChild(closeButtonTarget);
+		contentEl.appendChild(buttonContainerEl);
 
-			// Replace tabs in find-field if option is enabled
-			if (this.settings.processTab) {
-				logger('Replacing tabs in find-field', 9);
-				logger('  old: ' + searchString, 9);
-				searchString = searchString.replace(/\\t/gm, '\t');
-				logger('  new: ' + searchString, 9);
-			}
+		const copyButtonComponent = new ButtonComponent(copyButtonTarget);
+		const closeButtonComponent = new ButtonComponent(closeButtonTarget);
 
-			// Replace line breaks in replace-field if option is enabled
-			if (this.settings.processLineBreak) {
-				logger('Replacing linebreaks in replace-field', 9);
-				logger('  old: ' + replaceString, 9);
-				replaceString = replaceString.replace(/\\n/gm, '\n');
-				logger('  new: ' + replaceString, 9);
-			}
+		copyButtonComponent.setButtonText(t('library.copy'));
+		copyButtonComponent.setCta();
+		copyButtonComponent.onClick(async () => {
+			await navigator.clipboard.writeText(outputEl.value);
+			new Notice(t('library.copied', { count: this.plugin.settings.savedPatterns.length }));
+		});
+		closeButtonComponent.setButtonText(t('button.close'));
+		closeButtonComponent.onClick(() => this.close());
 
-			// Replace tabs in replace-field if option is enabled
-			if (this.settings.processTab) {
-				logger('Replacing tabs in replace-field', 9);
-				logger('  old: ' + replaceString, 9);
-				replaceString = replaceString.replace(/\\t/gm, '\t');
-				logger('  new: ' + replaceString, 9);
-			}
+		const updateOutput = () => {
+			outputEl.value = serializePatternLibrary(this.plugin.settings.savedPatterns, formatDropdownComponent.getValue() as LibraryFormat);
+		};
+		formatDropdownComponent.onChange(updateOutput);
+		updateOutput();
+	}
 
-			// Check if regular expressions should be used
-			if(regToggleComponent.getValue()) {
-				const currentFlags = buildRegexFlags();
-				logger('USING regex with flags: ' + currentFlags, 8);
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
 
-				const searchRegex = new RegExp(searchString, currentFlags);
-				if(!selToggleComponent.getValue()) {
-					logger('   SCOPE: Full document', 9);
-					const documentText = editor.getValue();
-					const rresult = documentText.match(searchRegex);
-					if (rresult) {
-						editor.setValue(documentText.replace(searchRegex, replaceString));
-						resultString = `Made ${rresult.length} replacement(s) in document`;			
-					}
-				}
-				else {
-					logger('   SCOPE: Selection', 9);
-					const rresult = selectedText.match(searchRegex);
-					if (rresult) {
-						editor.replaceSelection(selectedText.replace(searchRegex, replaceString));	
-						resultString = `Made ${rresult.length} replacement(s) in selection`;
-					}
-				}
-			}
-			else {
-				logger('NOT using regex', 8);
-				let nrOfHits = 0;
-				if(!selToggleComponent.getValue()) {
-					logger('   SCOPE: Full document', 9);
-					scope = 'selection'
-					const documentText = editor.getValue();
-					const documentSplit = documentText.split(searchString);
-					nrOfHits = documentSplit.length - 1;
-					editor.setValue(documentSplit.join(replaceString));
-				}
-				else {
-					logger('   SCOPE: Selection', 9);
-					scope = 'document';
-					const selectedSplit = selectedText.split(searchString);
-					nrOfHits = selectedSplit.length - 1;
-					editor.replaceSelection(selectedSplit.join(replaceString));
-				}
-				resultString = `Made ${nrOfHits} replacement(s) in ${scope}`;
-			} 		
-			
-			// Saving settings (find/replace text and toggle switch states)
-			this.settings.findText = searchString;
-			this.settings.replaceText = replaceString;
-			this.settings.useRegEx = regToggleComponent.getValue();
-			this.settings.selOnly = selToggleComponent.getValue();
+class PatternImportModal extends Modal {
+	constructor(app: App, plugin: RegexFindReplacePlugin, onImported: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.onImported = onImported;
+	}
 
-			// Auto-save successful pattern to history
-			if (resultString !== 'No match') {
-				(this.plugin as RegexFindReplacePlugin).savePattern(
-					searchString,
-					replaceWithInputComponent.getValue(),
-					regToggleComponent.getValue(),
-					this.settings.caseInsensitive
-				);
-			}
+	plugin: RegexFindReplacePlugin;
+	onImported: () => void;
 
-			this.plugin.saveData(this.settings);
+	onOpen() {
+		const { contentEl, titleEl, modalEl } = this;
 
-			this.close();
-			new Notice(resultString);
-		};
+		modalEl.addClass('find-replace-modal');
+		titleEl.setText(t('library.importTitle'));
 
-		submitButtonComponent.onClick(() => {
-			const searchString = findInputComponent.getValue();
-			if (!searchString) {
-				new Notice('Nothing to search for!');
-				return;
-			}
+		const inputEl = document.createElement('textarea');
+		inputEl.addClass('rfr-library-text');
+		inputEl.placeholder = t('library.importPlaceholder');
+		contentEl.appendChild(inputEl);
 
-			// Check if confirmation is needed for large replacements
-			if (this.settings.confirmLargeReplace) {
-				const targetText = selToggleComponent.getValue() && !noSelection
-					? editor.getSelection()
-					: editor.getValue();
+		const statusEl = document.createElement('div');
+		statusEl.style.marginTop = '0.5em';
+		statusEl.style.color = 'var(--text-muted)';
+		contentEl.appendChild(statusEl);
 
-				const { totalCount } = generateMatchPreviews(
-					targetText,
-					searchString,
-					replaceWithInputComponent.getValue(),
-					regToggleComponent.getValue(),
-					this.settings.caseInsensitive,
-					this.settings.multilineMatch,
-					1
-				);
+		const buttonContainerEl = document.createElement('div');
+		buttonContainerEl.addClass('row');
+		buttonContainerEl.style.marginTop = '1em';
 
-				if (totalCount >= this.settings.largeReplaceThreshold) {
-					const scope = selToggleComponent.getValue() ? 'selection' : 'document';
-					const confirmed = confirm(
-						`This will replace ${totalCount} matches in ${scope}.\n\nAre you sure you want to proceed?`
-					);
-					if (!confirmed) {
-						logger('Large replacement cancelled by user', 8);
-						return;
-					}
-				}
-			}
+		const mergeButtonTarget = document.createElement('div');
+		mergeButtonTarget.addClass('button-wrapper');
+		mergeButtonTarget.addClass('row');
 
-			performReplacement();
-		});
+		const replaceButtonTarget = document.createElement('div');
+		replaceButtonTarget.addClass('button-wrapper');
+		replaceButtonTarget.addClass('row');
 
-		// Apply settings
-		regToggleComponent.setValue(this.settings.useRegEx);
-		selToggleComponent.setValue(this.settings.selOnly);
-		replaceWithInputComponent.setValue(this.settings.replaceText);
-		
-		// Check if the prefill find option is enabled and the selection does not contain linebreaks
-		if (this.settings.prefillFind && editor.getSelection().indexOf('\n') < 0 && !noSelection) {
-			logger('Found selection without linebreaks and option is enabled -> fill',9);
-			findInputComponent.setValue(editor.getSelection());
-			selToggleComponent.setValue(false);
-		}
-		else {
-			logger('Restore find text', 9);
-			findInputComponent.setValue(this.settings.findText);
-		}
-		
-		// Add button row to dialog
-		buttonContainerEl.appendChild(submitButtonTarget);
+		const cancelButtonTarget = document.createElement('div');
+		cancelButtonTarget.addClass('button-wrapper');
+		cancelButtonTarget.addClass('row');
+
+		buttonContainerEl.appendChild(mergeButtonTarget);
+		buttonContainerEl.appendChild(replaceButtonTarget);
 		buttonContainerEl.appendChild(cancelButtonTarget);
-		buttonContainerEl.style.marginTop = '1em';
-		leftColumn.appendChild(buttonContainerEl);
+		contentEl.appendChild(buttonContainerEl);
 
-		// If no text is selected, disable selection-toggle-switch
-		if (noSelection) selToggleComponent.setValue(false);
+		const mergeButtonComponent = new ButtonComponent(mergeButtonTarget);
+		const replaceButtonComponent = new ButtonComponent(replaceButtonTarget);
+		const cancelButtonComponent = new ButtonComponent(cancelButtonTarget);
 
-		// Initial preview after all values are set
-		updatePreview();
+		mergeButtonComponent.setButtonText(t('library.merge'));
+		mergeButtonComponent.setCta();
+		mergeButtonComponent.setTooltip(t('library.mergeTooltip'));
+		replaceButtonComponent.setButtonText(t('library.replace'));
+		replaceButtonComponent.setWarning();
+		replaceButtonComponent.setTooltip(t('library.replaceTooltip'));
+		cancelButtonComponent.setButtonText(t('button.cancel'));
+		cancelButtonComponent.onClick(() => this.close());
+
+		let patterns: RegexPattern[] = [];
+
+		const updateStatus = () => {
+			patterns = [];
+			if (inputEl.value.trim()) {
+				try {
+					patterns = parsePatternLibrary(inputEl.value);
+				} catch (e) {
+					statusEl.setText((e as Error).message);
+				}
+			} else {
+				statusEl.setText('');
+			}
+			if (patterns.length > 0) {
+				const duplicates = patterns.filter(p => this.plugin.settings.savedPatterns.some(existing => isSamePattern(existing, p))).length;
+				statusEl.setText(t('library.summary', { count: patterns.length, added: patterns.length - duplicates, duplicates }));
+			}
+			mergeButtonComponent.setDisabled(patterns.length === 0);
+			replaceButtonComponent.setDisabled(patterns.length === 0);
+		};
+
+		const runImport = (mode: 'merge' | 'replace') => {
+			if (patterns.length === 0) return;
+			if (mode === 'replace' && !confirm(t('library.confirmReplace', { count: this.plugin.settings.savedPatterns.length }))) return;
+			const { added, skipped } = this.plugin.importPatterns(patterns, mode);
+			new Notice(t('library.imported', { added, skipped }));
+			this.close();
+			this.onImported();
+		};
+
+		mergeButtonComponent.onClick(() => runImport('merge'));
+		replaceButtonComponent.onClick(() => runImport('replace'));
+		inputEl.addEventListener('input', updateStatus);
+		updateStatus();
 	}
-	
+
 	onClose() {
 		const { contentEl } = this;
 		contentEl.empty();
@@ -1040,11 +5112,27 @@ class RegexFindReplaceSettingTab extends PluginSettingTab {
 		const {containerEl} = this;
 		containerEl.empty();
 
-		containerEl.createEl('h4', {text: 'Regular Expression Settings'});
+		new Setting(containerEl)
+			.setName(t('settings.language'))
+			.setDesc(t('settings.languageDesc'))
+			.addDropdown(dropdown => dropdown
+				.addOption('auto', t('settings.languageAuto'))
+				.addOption('en', 'English')
+				.addOption('zh', '简体中文')
+				.setValue(this.plugin.settings.language)
+				.onChange(async (value) => {
+					logger('Settings update: language: ' + value);
+					this.plugin.settings.language = value as LanguageSetting;
+					setLanguage(this.plugin.settings.language);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		containerEl.createEl('h4', {text: t('settings.regexHeading')});
 
 		new Setting(containerEl)
-			.setName('Case Insensitive')
-			.setDesc('Apply the /i modifier for case insensitive search')
+			.setName(t('settings.caseInsensitive'))
+			.setDesc(t('settings.caseInsensitiveDesc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.caseInsensitive)
 				.onChange(async (value) => {
@@ -1054,8 +5142,8 @@ class RegexFindReplaceSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('Multiline Mode')
-			.setDesc('Apply the /m modifier (^ and $ match line start/end instead of string start/end)')
+			.setName(t('settings.multiline'))
+			.setDesc(t('settings.multilineDesc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.multilineMatch)
 				.onChange(async (value) => {
@@ -1064,12 +5152,12 @@ class RegexFindReplaceSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
-		containerEl.createEl('h4', {text: 'General Settings'});
+		containerEl.createEl('h4', {text: t('settings.generalHeading')});
 
 
 		new Setting(containerEl)
-			.setName('Process \\n as line break')
-			.setDesc('When \'\\n\' is used in the find or replace field, it will be treated as a line break. This allows searching for and replacing text across multiple lines.')
+			.setName(t('settings.processLineBreak'))
+			.setDesc(t('settings.processLineBreakDesc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.processLineBreak)
 				.onChange(async (value) => {
@@ -1079,8 +5167,8 @@ class RegexFindReplaceSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('Process \\t as tab')
-			.setDesc('When \'\\t\' is used in the find or replace field, it will be treated as a tab character. This allows searching for and replacing tabs.')
+			.setName(t('settings.processTab'))
+			.setDesc(t('settings.processTabDesc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.processTab)
 				.onChange(async (value) => {
@@ -1090,8 +5178,8 @@ class RegexFindReplaceSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('Prefill Find Field')
-			.setDesc('Copy the currently selected text (if any) into the \'Find\' text field. This setting is only applied if the selection does not contain linebreaks')
+			.setName(t('settings.prefillFind'))
+			.setDesc(t('settings.prefillFindDesc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.prefillFind)
 				.onChange(async (value) => {
@@ -1100,11 +5188,11 @@ class RegexFindReplaceSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
-		containerEl.createEl('h4', {text: 'Preview & Safety'});
+		containerEl.createEl('h4', {text: t('settings.previewHeading')});
 
 		new Setting(containerEl)
-			.setName('Show Preview')
-			.setDesc('Display a live preview of matches and replacements before performing the operation')
+			.setName(t('settings.showPreview'))
+			.setDesc(t('settings.showPreviewDesc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.showPreview)
 				.onChange(async (value) => {
@@ -1114,8 +5202,8 @@ class RegexFindReplaceSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('Preview Limit')
-			.setDesc('Maximum number of matches to show in the preview')
+			.setName(t('settings.previewLimit'))
+			.setDesc(t('settings.previewLimitDesc'))
 			.addText(text => text
 				.setPlaceholder('5')
 				.setValue(String(this.plugin.settings.previewLimit))
@@ -1129,8 +5217,23 @@ class RegexFindReplaceSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('Confirm Large Replacements')
-			.setDesc('Show a confirmation dialog when replacing many matches')
+			.setName(t('settings.matchTimeout'))
+			.setDesc(t('settings.matchTimeoutDesc'))
+			.addText(text => text
+				.setPlaceholder('2')
+				.setValue(String(this.plugin.settings.matchTimeout))
+				.onChange(async (value) => {
+					const num = parseFloat(value);
+					if (!isNaN(num) && num > 0 && num <= 60) {
+						logger('Settings update: matchTimeout: ' + num);
+						this.plugin.settings.matchTimeout = num;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.confirmLarge'))
+			.setDesc(t('settings.confirmLargeDesc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.confirmLargeReplace)
 				.onChange(async (value) => {
@@ -1140,8 +5243,8 @@ class RegexFindReplaceSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('Large Replacement Threshold')
-			.setDesc('Number of matches that triggers the confirmation dialog')
+			.setName(t('settings.largeThreshold'))
+			.setDesc(t('settings.largeThresholdDesc'))
 			.addText(text => text
 				.setPlaceholder('20')
 				.setValue(String(this.plugin.settings.largeReplaceThreshold))
@@ -1154,11 +5257,22 @@ class RegexFindReplaceSettingTab extends PluginSettingTab {
 					}
 				}));
 
-		containerEl.createEl('h4', {text: 'Saved Patterns'});
+		containerEl.createEl('h4', {text: t('settings.patternsHeading')});
+
+		new Setting(containerEl)
+			.setName(t('settings.pinnedCommands'))
+			.setDesc(t('settings.pinnedCommandsDesc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.pinnedPatternCommands)
+				.onChange(async (value) => {
+					logger('Settings update: pinnedPatternCommands: ' + value);
+					this.plugin.settings.pinnedPatternCommands = value;
+					await this.plugin.saveSettings();
+				}));
 
 		new Setting(containerEl)
-			.setName('Max History Size')
-			.setDesc('Maximum number of unpinned patterns to keep in history (pinned patterns are never removed)')
+			.setName(t('settings.maxHistory'))
+			.setDesc(t('settings.maxHistoryDesc'))
 			.addText(text => text
 				.setPlaceholder('10')
 				.setValue(String(this.plugin.settings.maxHistorySize))
@@ -1173,49 +5287,294 @@ class RegexFindReplaceSettingTab extends PluginSettingTab {
 				}));
 
 		if (this.plugin.settings.savedPatterns.length > 0) {
-			const sortedPatterns = [...this.plugin.settings.savedPatterns].sort((a, b) => {
-				if (a.isPinned !== b.isPinned) return a.isPinned ? -1 : 1;
-				return b.lastUsed - a.lastUsed;
+			const pinnedCount = this.plugin.settings.savedPatterns.filter(p => p.isPinned).length;
+			new Setting(containerEl)
+				.setName(t('settings.managePatterns'))
+				.setDesc(t('settings.managePatternsDesc', { count: this.plugin.settings.savedPatterns.length, pinned: pinnedCount }))
+				.addButton(button => button
+					.setButtonText(t('settings.openManager'))
+					.setCta()
+					.onClick(() => {
+						new PatternManagerModal(this.app, this.plugin, () => this.display()).open();
+					}));
+
+			new Setting(containerEl)
+				.setName(t('settings.clearPatterns'))
+				.setDesc(t('settings.clearPatternsDesc'))
+				.addButton(button => button
+					.setButtonText(t('settings.clearAll'))
+					.setWarning()
+					.onClick(async () => {
+						this.plugin.settings.savedPatterns = [];
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		} else {
+			containerEl.createEl('p', {
+				text: t('settings.noPatterns'),
+				cls: 'setting-item-description'
+			});
+		}
+
+		new Setting(containerEl)
+			.setName(t('settings.transfer'))
+			.setDesc(t('settings.transferDesc'))
+			.addButton(button => button
+				.setButtonText(t('settings.import'))
+				.onClick(() => {
+					new PatternImportModal(this.app, this.plugin, () => this.display()).open();
+				}))
+			.addButton(button => button
+				.setButtonText(t('settings.export'))
+				.setDisabled(this.plugin.settings.savedPatterns.length === 0)
+				.onClick(() => {
+					new PatternExportModal(this.app, this.plugin).open();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.libraryFile'))
+			.setDesc(t('settings.libraryFileDesc'))
+			.addText(text => {
+				text
+					.setPlaceholder('Regex patterns.md')
+					.setValue(this.plugin.settings.librarySyncPath);
+				// Applied when the field loses focus, so no file is created for a half-typed path
+				text.inputEl.addEventListener('change', async () => {
+					const value = text.getValue().trim();
+					if (value && !getLibraryFileFormat(value)) {
+						new Notice(t('library.unsupportedFile'));
+						return;
+					}
+					logger('Settings update: librarySyncPath: ' + value);
+					this.plugin.settings.librarySyncPath = value;
+					await this.plugin.saveData(this.plugin.settings);
+					await this.plugin.startLibrarySync();
+					this.display();
+				});
 			});
 
-			sortedPatterns.forEach(pattern => {
-				const setting = new Setting(containerEl)
-					.setName(pattern.name)
-					.setDesc(`Find: ${pattern.findText.substring(0, 50)} | Replace: ${pattern.replaceText.substring(0, 50)}`);
+		this.displayRecipes(containerEl);
+		this.displayFormatRules(containerEl);
+	}
+
+	displayRecipes(containerEl: HTMLElement): void {
+		containerEl.createEl('h4', {text: t('settings.recipesHeading')});
+		containerEl.createEl('p', {
+			text: t('settings.recipesDesc'),
+			cls: 'setting-item-description'
+		});
+
+		this.plugin.settings.recipes.forEach(recipe => {
+			const recipeEl = containerEl.createDiv({cls: 'rfr-recipe'});
+
+			new Setting(recipeEl)
+				.setName(t('settings.name'))
+				.setDesc(t('settings.steps', { count: recipe.patternIds.length }))
+				.addText(text => text
+					.setValue(recipe.name)
+					.onChange(async (value) => {
+						recipe.name = value;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip(t('settings.deleteRecipe'))
+					.onClick(async () => {
+						this.plugin.deleteRecipe(recipe.id);
+						this.display();
+					}));
+
+			recipe.patternIds.forEach((patternId, index) => {
+				const pattern = this.plugin.settings.savedPatterns.find(p => p.id === patternId);
+				const setting = new Setting(recipeEl)
+					.setClass('rfr-recipe-step')
+					.setName(`${index + 1}. ${pattern ? pattern.name : t('settings.missingPattern')}`)
+					.setDesc(pattern ? t('settings.patternDesc', { find: pattern.findText.substring(0, 50), replace: pattern.replaceText.substring(0, 50) }) : t('settings.missingPatternDesc'));
 
 				setting.addExtraButton(button => button
-					.setIcon(pattern.isPinned ? 'pin' : 'pin-off')
-					.setTooltip(pattern.isPinned ? 'Unpin' : 'Pin')
+					.setIcon('arrow-up')
+					.setTooltip(t('settings.moveUp'))
+					.setDisabled(index === 0)
 					.onClick(async () => {
-						this.plugin.togglePinPattern(pattern.id);
+						this.plugin.moveRecipeStep(recipe.id, index, -1);
 						this.display();
 					}));
 
 				setting.addExtraButton(button => button
-					.setIcon('trash')
-					.setTooltip('Delete')
+					.setIcon('arrow-down')
+					.setTooltip(t('settings.moveDown'))
+					.setDisabled(index === recipe.patternIds.length - 1)
 					.onClick(async () => {
-						this.plugin.deletePattern(pattern.id);
+						this.plugin.moveRecipeStep(recipe.id, index, 1);
+						this.display();
+					}));
+
+				setting.addExtraButton(button => button
+					.setIcon('cross')
+					.setTooltip(t('settings.removeStep'))
+					.onClick(async () => {
+						this.plugin.removeRecipeStep(recipe.id, index);
 						this.display();
 					}));
 			});
 
+			new Setting(recipeEl)
+				.setName(t('settings.addStep'))
+				.setDesc(t('settings.addStepDesc'))
+				.addDropdown(dropdown => {
+					dropdown.addOption('', t('placeholder.selectPattern'));
+					this.plugin.settings.savedPatterns.forEach(pattern => {
+						dropdown.addOption(pattern.id, pattern.name);
+					});
+					dropdown.onChange(async (patternId) => {
+						if (!patternId) return;
+						this.plugin.addRecipeStep(recipe.id, patternId);
+						this.display();
+					});
+				});
+
+			new Setting(recipeEl)
+				.setName(t('settings.recipeFix'))
+				.setDesc(t('settings.recipeFixDesc'))
+				.addToggle(toggle => toggle
+					.setValue(recipe.fixFormatting)
+					.onChange(async (value) => {
+						recipe.fixFormatting = value;
+						await this.plugin.saveSettings();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText(t('settings.addRecipe'))
+				.onClick(async () => {
+					this.plugin.createRecipe();
+					this.display();
+				}));
+	}
+
+	displayFormatRules(containerEl: HTMLElement): void {
+		containerEl.createEl('h4', {text: t('settings.formatHeading')});
+		containerEl.createEl('p', {
+			text: t('settings.formatDesc'),
+			cls: 'setting-item-description'
+		});
+
+		FORMAT_RULES.forEach(rule => {
 			new Setting(containerEl)
-				.setName('Clear All Patterns')
-				.setDesc('Remove all saved patterns from history')
-				.addButton(button => button
-					.setButtonText('Clear All')
-					.setWarning()
+				.setName(rule.name())
+				.setDesc(rule.description())
+				.addToggle(toggle => toggle
+					.setValue(isFormatRuleEnabled(rule, this.plugin.settings))
+					.onChange(async (value) => {
+						logger('Settings update: formatRules.' + rule.id + ': ' + value);
+						this.plugin.settings.formatRules[rule.id] = value;
+						await this.plugin.saveSettings();
+					}));
+		});
+
+		new Setting(containerEl)
+			.setName(t('settings.bulletMarker'))
+			.setDesc(t('settings.bulletMarkerDesc'))
+			.addDropdown(dropdown => dropdown
+				.addOption('-', '-')
+				.addOption('*', '*')
+				.addOption('+', '+')
+				.setValue(this.plugin.settings.bulletMarker)
+				.onChange(async (value) => {
+					logger('Settings update: bulletMarker: ' + value);
+					this.plugin.settings.bulletMarker = value as BulletMarker;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.emphasisMarkers'))
+			.setDesc(t('settings.emphasisMarkersDesc'))
+			.addDropdown(dropdown => dropdown
+				.addOption('*', '*emphasis*')
+				.addOption('_', '_emphasis_')
+				.setValue(this.plugin.settings.emphasisMarker)
+				.onChange(async (value) => {
+					logger('Settings update: emphasisMarker: ' + value);
+					this.plugin.settings.emphasisMarker = value as '*' | '_';
+					await this.plugin.saveSettings();
+				}))
+			.addDropdown(dropdown => dropdown
+				.addOption('**', '**strong**')
+				.addOption('__', '__strong__')
+				.setValue(this.plugin.settings.strongMarker)
+				.onChange(async (value) => {
+					logger('Settings update: strongMarker: ' + value);
+					this.plugin.settings.strongMarker = value as '**' | '__';
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h4', {text: t('settings.customHeading')});
+		containerEl.createEl('p', {
+			text: t('settings.customDesc'),
+			cls: 'setting-item-description'
+		});
+
+		this.plugin.settings.customFormatRules.forEach(custom => {
+			const ruleEl = containerEl.createDiv({cls: 'rfr-recipe'});
+
+			new Setting(ruleEl)
+				.setName(t('settings.name'))
+				.addText(text => text
+					.setValue(custom.name)
+					.onChange(async (value) => {
+						custom.name = value;
+						await this.plugin.saveSettings();
+					}))
+				.addToggle(toggle => toggle
+					.setTooltip(t('settings.enabled'))
+					.setValue(custom.enabled)
+					.onChange(async (value) => {
+						custom.enabled = value;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip(t('settings.deleteRule'))
 					.onClick(async () => {
-						this.plugin.settings.savedPatterns = [];
+						this.plugin.settings.customFormatRules = this.plugin.settings.customFormatRules.filter(r => r.id !== custom.id);
 						await this.plugin.saveSettings();
 						this.display();
 					}));
-		} else {
-			containerEl.createEl('p', {
-				text: 'No saved patterns yet. Patterns will be automatically saved when you perform replacements.',
-				cls: 'setting-item-description'
-			});
-		}
+
+			new Setting(ruleEl)
+				.setName(t('settings.find'))
+				.addText(text => text
+					.setPlaceholder('regex')
+					.setValue(custom.findText)
+					.onChange(async (value) => {
+						custom.findText = value;
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(ruleEl)
+				.setName(t('settings.replace'))
+				.addText(text => text
+					.setValue(custom.replaceText)
+					.onChange(async (value) => {
+						custom.replaceText = value;
+						await this.plugin.saveSettings();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText(t('settings.addCustomRule'))
+				.onClick(async () => {
+					this.plugin.settings.customFormatRules.push({
+						id: this.plugin.generateId(),
+						name: t('settings.customRuleName', { count: this.plugin.settings.customFormatRules.length + 1 }),
+						findText: '',
+						replaceText: '',
+						enabled: true
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				}));
 	}
 }
@@ -0,0 +1,489 @@
+import { moment } from 'obsidian';
+import { logger } from './logger';
+
+export interface TextMatch {
+	from: number;
+	to: number;
+	startLine: number;
+	startCh: number;
+	endLine: number;
+	endCh: number;
+	text: string;
+	groups: (string | undefined)[];
+	namedGroups: { [name: string]: string | undefined } | undefined;
+	// Offsets of the groups in the text, only known if the search asked for them
+	groupRanges: ({ from: number, to: number } | undefined)[] | undefined;
+	// The part of the text that was searched, if it was not all of it; $` and $' stay within it
+	searchedRange?: { from: number, to: number };
+}
+
+// A capture group of a match, positioned relative to the start of the line of the match
+export interface MatchGroupPreview {
+	number: number;
+	// Undefined if the group did not take part in the match
+	value: string | undefined;
+	from: number | undefined;
+	to: number | undefined;
+}
+
+export interface MatchPreview {
+	lineNumber: number;
+	lineContent: string;
+	matchedText: string;
+	replacementText: string;
+	matchIndex: number;
+	lineAfterReplace: string;
+	matchStartInLine: number;
+	matchEndInLine: number;
+	isMultiLine: boolean;
+	from: number;
+	to: number;
+	// Set for matches left out by the Markdown scope
+	skippedReason?: string;
+	// Number of the selection the match is in, set when there are several selections
+	selection?: number;
+	groups: MatchGroupPreview[];
+}
+
+// A match left out by the Markdown scope, with the reason shown in the preview
+export interface SkippedMatch {
+	match: TextMatch;
+	reason: string;
+}
+
+const buildLineOffsets = (text: string): number[] => {
+	const lineOffsets = [0];
+	let index = text.indexOf('\n');
+	while (index !== -1) {
+		lineOffsets.push(index + 1);
+		index = text.indexOf('\n', index + 1);
+	}
+	return lineOffsets;
+};
+
+const offsetToLineCh = (lineOffsets: number[], offset: number): { line: number, ch: number } => {
+	let low = 0;
+	let high = lineOffsets.length - 1;
+	while (low < high) {
+		const mid = Math.ceil((low + high) / 2);
+		if (lineOffsets[mid] <= offset) low = mid; else high = mid - 1;
+	}
+	return { line: low, ch: offset - lineOffsets[low] };
+};
+
+// A match as reported by the regex engine, before its line and column are worked out
+export interface RawMatch {
+	index: number;
+	groups: (string | undefined)[];
+	namedGroups: { [name: string]: string | undefined } | undefined;
+	groupIndices: ([number, number] | undefined)[] | undefined;
+}
+
+// Also runs inside the match worker, so it must not use anything outside of its own body
+const collectRegexMatches = (text: string, searchString: string, regexFlags: string, withGroupPositions = false): RawMatch[] => {
+	const matches: RawMatch[] = [];
+	let flags = regexFlags;
+	if (withGroupPositions) {
+		try {
+			new RegExp('', 'd');
+			flags += 'd';
+		} catch (e) {
+			// Older versions of Electron have no d flag, the group positions stay unknown
+		}
+	}
+	const searchRegex = new RegExp(searchString, flags);
+	let match;
+	while ((match = searchRegex.exec(text)) !== null) {
+		const indices = (match as RegExpExecArray & { indices?: ([number, number] | undefined)[] }).indices;
+		matches.push({
+			index: match.index,
+			groups: Array.prototype.slice.call(match),
+			namedGroups: (match as RegExpExecArray & { groups?: { [name: string]: string } }).groups,
+			groupIndices: indices ? Array.prototype.slice.call(indices) : undefined
+		});
+		if (!searchRegex.global) break;
+		// Avoid an endless loop on empty matches
+		if (match[0].length === 0) searchRegex.lastIndex++;
+	}
+	return matches;
+};
+
+const collectPlainMatches = (text: string, searchString: string): RawMatch[] => {
+	const matches: RawMatch[] = [];
+	let index = text.indexOf(searchString);
+	while (index !== -1) {
+		matches.push({ index, groups: [searchString], namedGroups: undefined, groupIndices: undefined });
+		index = text.indexOf(searchString, index + searchString.length);
+	}
+	return matches;
+};
+
+const buildTextMatches = (text: string, rawMatches: RawMatch[]): TextMatch[] => {
+	const lineOffsets = buildLineOffsets(text);
+	return rawMatches.map(({ index: from, groups, namedGroups, groupIndices }) => {
+		const to = from + (groups[0] ?? '').length;
+		const start = offsetToLineCh(lineOffsets, from);
+		const end = offsetToLineCh(lineOffsets, to);
+		return {
+			from,
+			to,
+			startLine: start.line,
+			startCh: start.ch,
+			endLine: end.line,
+			endCh: end.ch,
+			text: groups[0] ?? '',
+			groups,
+			namedGroups,
+			groupRanges: groupIndices ? groupIndices.map(range => range ? { from: range[0], to: range[1] } : undefined) : undefined
+		};
+	});
+};
+
+// Moves matches found in the part from..to of the text to the offsets of the whole text
+export const offsetTextMatches = (text: string, matches: TextMatch[], range: { from: number, to: number }): TextMatch[] => {
+	const offset = range.from;
+	return buildTextMatches(text, matches.map(m => ({
+		index: m.from + offset,
+		groups: m.groups,
+		namedGroups: m.namedGroups,
+		groupIndices: m.groupRanges
+			? m.groupRanges.map(r => r ? [r.from + offset, r.to + offset] as [number, number] : undefined)
+			: undefined
+	}))).map(m => ({ ...m, searchedRange: { from: range.from, to: range.to } }));
+};
+
+const MATCH_WORKER_SOURCE = `
+const collectRegexMatches = ${collectRegexMatches.toString()};
+self.onmessage = (event) => {
+	const { id, text, searchString, regexFlags, withGroupPositions } = event.data;
+	try {
+		self.postMessage({ id, matches: collectRegexMatches(text, searchString, regexFlags, withGroupPositions) });
+	} catch (e) {
+		self.postMessage({ id, error: String(e && e.message ? e.message : e) });
+	}
+};
+`;
+
+// Raised when a search in the match worker is stopped before it finished
+export class MatchAbortedError extends Error {
+	constructor(reason: 'timeout' | 'cancelled') {
+		super(reason === 'timeout' ? 'Search timed out' : 'Search cancelled');
+		this.reason = reason;
+	}
+
+	reason: 'timeout' | 'cancelled';
+}
+
+// Runs regex searches in a web worker, so a pattern with catastrophic backtracking can not freeze
+// Obsidian. A search that takes too long or is replaced by a newer one is stopped by ending the worker.
+export class MatchWorker {
+	worker: Worker | null = null;
+	workerUrl = '';
+	nextId = 0;
+	pending: { id: number, resolve: (matches: RawMatch[]) => void, reject: (error: Error) => void, timer: number } | null = null;
+
+	run(text: string, searchString: string, regexFlags: string, timeout: number, withGroupPositions = false): Promise<RawMatch[]> {
+		this.cancel();
+		if (typeof Worker === 'undefined') {
+			return new Promise(resolve => resolve(collectRegexMatches(text, searchString, regexFlags, withGroupPositions)));
+		}
+		return new Promise((resolve, reject) => {
+			const id = ++this.nextId;
+			const timer = window.setTimeout(() => {
+				logger(`Search timed out after ${timeout} ms: ${searchString}`, 1);
+				this.pending = null;
+				this.terminate();
+				reject(new MatchAbortedError('timeout'));
+			}, timeout);
+			this.pending = { id, resolve, reject, timer };
+			this.getWorker().postMessage({ id, text, searchString, regexFlags, withGroupPositions });
+		});
+	}
+
+	cancel(): void {
+		if (!this.pending) return;
+		const { reject, timer } = this.pending;
+		window.clearTimeout(timer);
+		this.pending = null;
+		// The worker may be stuck in the search, so it is replaced rather than asked to stop
+		this.terminate();
+		reject(new MatchAbortedError('cancelled'));
+	}
+
+	getWorker(): Worker {
+		if (this.worker) return this.worker;
+		if (!this.workerUrl) {
+			this.workerUrl = URL.createObjectURL(new Blob([MATCH_WORKER_SOURCE], { type: 'text/javascript' }));
+		}
+		this.worker = new Worker(this.workerUrl);
+		this.worker.onmessage = (event: MessageEvent) => {
+			const { id, matches, error } = event.data;
+			if (!this.pending || this.pending.id !== id) return;
+			const { resolve, reject, timer } = this.pending;
+			window.clearTimeout(timer);
+			this.pending = null;
+			if (error !== undefined) reject(new Error(error)); else resolve(matches);
+		};
+		return this.worker;
+	}
+
+	terminate(): void {
+		if (!this.worker) return;
+		this.worker.terminate();
+		this.worker = null;
+	}
+
+	destroy(): void {
+		this.cancel();
+		this.terminate();
+		if (this.workerUrl) URL.revokeObjectURL(this.workerUrl);
+		this.workerUrl = '';
+	}
+}
+
+// The matching engine: finds all matches once on the full text, with their offsets and line/column
+// ranges. The preview, the replacement and the step-through mode all work on its results.
+// Regex searches run in the worker, so that a runaway pattern is stopped after the timeout.
+export const findMatchesInWorker = async (
+	worker: MatchWorker,
+	text: string,
+	searchString: string,
+	useRegEx: boolean,
+	regexFlags: string,
+	timeout: number,
+	withGroupPositions = false
+): Promise<TextMatch[]> => {
+	if (!searchString) return [];
+	const rawMatches = useRegEx
+		? await worker.run(text, searchString, regexFlags, timeout, withGroupPositions)
+		: collectPlainMatches(text, searchString);
+	return buildTextMatches(text, rawMatches);
+};
+
+// Replaces only the given matches, the rest of the text is kept as it is
+export const replaceMatches = (
+	text: string,
+	matches: TextMatch[],
+	replaceString: string,
+	useRegEx: boolean,
+	context: ReplacementContext
+): string => {
+	let output = '';
+	let last = 0;
+	matches.forEach((m, index) => {
+		output += text.substring(last, m.from) + (useRegEx ? expandReplacement(replaceString, m, text, index + 1, context) : replaceString);
+		last = m.to;
+	});
+	return output + text.substring(last);
+};
+
+export interface ReplacementContext {
+	// Name of the note the replacement is made in, for ${file}
+	fileName: string;
+	// Time of the replacement, for ${date}
+	now: number;
+}
+
+export const createReplacementContext = (fileName: string): ReplacementContext => {
+	return { fileName, now: Date.now() };
+};
+
+const padNumber = (value: number, format: string): string => {
+	const width = parseInt(format);
+	let result = String(value);
+	if (isNaN(width)) return result;
+	const padChar = format.startsWith('0') ? '0' : ' ';
+	while (result.length < width) result = padChar + result;
+	return result;
+};
+
+// Expands the replacement template for a single match. On top of the rules of String.prototype.replace
+// ($$, $&, $`, $', $n, $<name>) it supports the case modifiers \U, \L, \E, \u and \l, the match counter
+// ${n} / ${n:03}, and the variables ${file}, ${date} and ${date:FORMAT}.
+// matchNumber is the 1-based number of the match among the replaced ones.
+export const expandReplacement = (
+	replaceString: string,
+	match: TextMatch,
+	input: string,
+	matchNumber: number,
+	context: ReplacementContext
+): string => {
+	let output = '';
+	let caseMode: 'upper' | 'lower' | null = null;
+	let nextCharCase: 'upper' | 'lower' | null = null;
+
+	const append = (value: string) => {
+		if (!value) return;
+		let result = value;
+		if (caseMode === 'upper') result = result.toUpperCase();
+		else if (caseMode === 'lower') result = result.toLowerCase();
+		if (nextCharCase) {
+			const first = nextCharCase === 'upper' ? result[0].toUpperCase() : result[0].toLowerCase();
+			result = first + result.substring(1);
+			nextCharCase = null;
+		}
+		output += result;
+	};
+
+	const expandVariable = (name: string, format: string | undefined): string | null => {
+		if (name === 'n') return format ? padNumber(matchNumber, format) : String(matchNumber);
+		if (name === 'file') return context.fileName;
+		if (name === 'date') return moment(context.now).format(format || 'YYYY-MM-DD');
+		return null;
+	};
+
+	const groupCount = match.groups.length - 1;
+	let i = 0;
+	while (i < replaceString.length) {
+		const c = replaceString[i];
+		const next = replaceString[i + 1];
+
+		if (c === '\\' && next !== undefined && 'ULEul'.indexOf(next) !== -1) {
+			if (next === 'U') caseMode = 'upper';
+			else if (next === 'L') caseMode = 'lower';
+			else if (next === 'E') caseMode = null;
+			else nextCharCase = next === 'u' ? 'upper' : 'lower';
+			i += 2;
+			continue;
+		}
+
+		if (c !== '$' || next === undefined) {
+			append(c);
+			i++;
+			continue;
+		}
+
+		if (next === '$') {
+			append('$');
+			i += 2;
+		} else if (next === '&') {
+			append(match.text);
+			i += 2;
+		} else if (next === '`') {
+			append(input.substring(match.searchedRange ? match.searchedRange.from : 0, match.from));
+			i += 2;
+		} else if (next === '\'') {
+			append(input.substring(match.to, match.searchedRange ? match.searchedRange.to : input.length));
+			i += 2;
+		} else if (next === '<' && match.namedGroups) {
+			const end = replaceString.indexOf('>', i + 2);
+			if (end === -1) {
+				append('$<');
+				i += 2;
+			} else {
+				append(match.namedGroups[replaceString.substring(i + 2, end)] ?? '');
+				i = end + 1;
+			}
+		} else if (next === '{') {
+			const end = replaceString.indexOf('}', i + 2);
+			const variable = end === -1 ? null : replaceString.substring(i + 2, end).match(/^(\w+)(?::(.*))?$/);
+			const value = variable ? expandVariable(variable[1], variable[2]) : null;
+			if (value === null) {
+				append('${');
+				i += 2;
+			} else {
+				append(value);
+				i = end + 1;
+			}
+		} else if (next >= '0' && next <= '9') {
+			const twoDigits = replaceString.substring(i + 1, i + 3);
+			const n2 = /^\d\d$/.test(twoDigits) ? parseInt(twoDigits) : 0;
+			const n1 = parseInt(next);
+			// $nn with only n groups is read as $n followed by a digit
+			if (n2 >= 1 && n2 <= groupCount) {
+				append(match.groups[n2] ?? '');
+				i += 3;
+			} else if (n1 >= 1 && n1 <= groupCount) {
+				append(match.groups[n1] ?? '');
+				i += 2;
+			} else {
+				append('$');
+				i++;
+			}
+		} else {
+			append('$');
+			i++;
+		}
+	}
+	return output;
+};
+
+// Builds the preview cards for the first matches found by the engine
+export const generateMatchPreviews = (
+	text: string,
+	matches: TextMatch[],
+	replaceString: string,
+	useRegEx: boolean,
+	limit: number,
+	context: ReplacementContext,
+	skipped: SkippedMatch[] = [],
+	isExcluded: (match: TextMatch) => boolean = () => false
+): MatchPreview[] => {
+	// The counter only counts the replaced matches, like replaceMatches does. An excluded match shows
+	// the number it would get if it was included again, without taking it from the ones after it.
+	let counter = 0;
+	const numbered = matches.map(match => {
+		if (isExcluded(match)) return { match, matchNumber: counter + 1, reason: undefined as string | undefined };
+		counter++;
+		return { match, matchNumber: counter, reason: undefined as string | undefined };
+	});
+	// Skipped matches are listed among the others in document order, but they are not counted
+	const entries = [
+		...numbered,
+		...skipped.map(s => ({ match: s.match, matchNumber: 0, reason: s.reason as string | undefined }))
+	].sort((a, b) => a.match.from - b.match.from).slice(0, limit);
+
+	return entries.map(({ match: m, matchNumber, reason }, matchIndex) => {
+		let replacementText = m.text;
+		if (reason === undefined) {
+			replacementText = useRegEx ? expandReplacement(replaceString, m, text, matchNumber, context) : replaceString;
+		}
+		const lineStart = m.from - m.startCh;
+		const firstLineEnd = text.indexOf('\n', lineStart);
+		let lastLineEnd = text.indexOf('\n', m.to);
+		if (lastLineEnd === -1) lastLineEnd = text.length;
+
+		const isMultiLine = m.startLine !== m.endLine;
+		const lineContent = text.substring(lineStart, isMultiLine ? firstLineEnd : lastLineEnd);
+
+		return {
+			lineNumber: m.startLine + 1,
+			lineContent: lineContent,
+			matchedText: m.text,
+			replacementText: replacementText,
+			matchIndex: matchIndex,
+			lineAfterReplace: text.substring(lineStart, m.from) + replacementText + text.substring(m.to, lastLineEnd),
+			matchStartInLine: m.startCh,
+			matchEndInLine: isMultiLine ? lineContent.length : m.endCh,
+			isMultiLine: isMultiLine,
+			from: m.from,
+			to: m.to,
+			skippedReason: reason,
+			groups: m.groups.slice(1).map((value, index) => {
+				const range = m.groupRanges ? m.groupRanges[index + 1] : undefined;
+				return {
+					number: index + 1,
+					value,
+					from: range ? range.from - lineStart : undefined,
+					to: range ? range.to - lineStart : undefined
+				};
+			})
+		};
+	});
+};
+
+// Applies the find/replace to a whole text, the same way for the active editor and for vault files
+export const replaceInText = async (
+	worker: MatchWorker,
+	text: string,
+	searchString: string,
+	replaceString: string,
+	useRegEx: boolean,
+	regexFlags: string,
+	timeout: number,
+	context: ReplacementContext
+): Promise<{ text: string; count: number }> => {
+	const matches = await findMatchesInWorker(worker, text, searchString, useRegEx, regexFlags, timeout);
+	if (matches.length === 0) return { text, count: 0 };
+	return { text: replaceMatches(text, matches, replaceString, useRegEx, context), count: matches.length };
+};
@@ -0,0 +1,194 @@
+import { TranslationKey, t } from './i18n';
+
+export type RegexTokenType = 'literal' | 'escape' | 'backreference' | 'dot' | 'anchor' | 'class' | 'group-open' | 'group-close' | 'quantifier' | 'alternation';
+export type RegexGroupKind = 'capture' | 'named' | 'non-capture' | 'lookahead' | 'negative-lookahead' | 'lookbehind' | 'negative-lookbehind';
+
+export interface RegexToken {
+	type: RegexTokenType;
+	from: number;
+	to: number;
+	text: string;
+	// Number of groups the token is nested in, a group's own brackets count as outside of it
+	depth: number;
+	groupKind?: RegexGroupKind;
+	groupNumber?: number;
+	groupName?: string;
+}
+
+export interface RegexSyntaxError {
+	message: string;
+	// Offset in the pattern, -1 if unknown
+	position: number;
+}
+
+export interface RegexAnalysis {
+	tokens: RegexToken[];
+	groupCount: number;
+	groupNames: string[];
+	error: RegexSyntaxError | null;
+}
+
+const GROUP_PREFIXES: { prefix: string, kind: RegexGroupKind }[] = [
+	{ prefix: '(?:', kind: 'non-capture' },
+	{ prefix: '(?=', kind: 'lookahead' },
+	{ prefix: '(?!', kind: 'negative-lookahead' },
+	{ prefix: '(?<=', kind: 'lookbehind' },
+	{ prefix: '(?<!', kind: 'negative-lookbehind' }
+];
+
+// Length of the escape sequence starting at the backslash at index i
+const getEscapeLength = (source: string, i: number): number => {
+	const rest = source.substring(i + 1);
+	const sequence = rest.match(/^(?:x[0-9a-fA-F]{2}|u\{[0-9a-fA-F]+\}|u[0-9a-fA-F]{4}|c[A-Za-z]|[pP]\{[^}]*\}|k<[^>]*>|[1-9]\d*)/);
+	return 1 + (sequence ? sequence[0].length : Math.min(rest.length, 1));
+};
+
+// Checks the ranges of a character class such as [a-z], the class runs from index start to end (exclusive)
+const findClassRangeError = (source: string, start: number, end: number): number => {
+	// Each item is a character code, or null for escapes such as \d that stand for many characters
+	const items: { code: number | null, position: number, isDash: boolean }[] = [];
+	let i = source[start + 1] === '^' ? start + 2 : start + 1;
+	while (i < end - 1) {
+		if (source[i] === '\\') {
+			const length = getEscapeLength(source, i);
+			const escaped = source.substring(i + 1, i + length);
+			const simple: { [escape: string]: string } = { n: '\n', r: '\r', t: '\t', f: '\f', v: '\v', '0': '\0' };
+			let code: number | null = null;
+			if (/^[dDwWsSpP]/.test(escaped)) code = null;
+			else if (simple[escaped] !== undefined) code = simple[escaped].charCodeAt(0);
+			else if (/^x|^u[0-9a-fA-F]/.test(escaped)) code = parseInt(escaped.substring(1), 16);
+			else if (/^u\{/.test(escaped)) code = parseInt(escaped.slice(2, -1), 16);
+			else code = escaped.charCodeAt(0);
+			items.push({ code, position: i, isDash: false });
+			i += length;
+		} else {
+			items.push({ code: source.charCodeAt(i), position: i, isDash: source[i] === '-' });
+			i++;
+		}
+	}
+	for (let k = 1; k < items.length - 1; k++) {
+		if (!items[k].isDash) continue;
+		const low = items[k - 1];
+		const high = items[k + 1];
+		if (low.code !== null && high.code !== null && low.code > high.code) return low.position;
+		k++;
+	}
+	return -1;
+};
+
+// Splits a regular expression into tokens and finds the position of syntax errors
+export const analyzeRegex = (source: string): RegexAnalysis => {
+	const tokens: RegexToken[] = [];
+	const groupNames: string[] = [];
+	const openGroups: RegexToken[] = [];
+	let groupCount = 0;
+	let error: RegexSyntaxError | null = null;
+
+	const fail = (key: TranslationKey, position: number) => {
+		if (!error) error = { message: t(key), position };
+	};
+	const push = (type: RegexTokenType, from: number, to: number, extra: Partial<RegexToken> = {}): RegexToken => {
+		const token: RegexToken = { type, from, to, text: source.substring(from, to), depth: openGroups.length, ...extra };
+		tokens.push(token);
+		return token;
+	};
+
+	let i = 0;
+	while (i < source.length) {
+		const c = source[i];
+
+		if (c === '\\') {
+			if (i === source.length - 1) {
+				fail('regex.trailingBackslash', i);
+				push('literal', i, i + 1);
+				break;
+			}
+			const length = getEscapeLength(source, i);
+			const next = source[i + 1];
+			if (/[1-9]/.test(next) || next === 'k') push('backreference', i, i + length);
+			else if (next === 'b' || next === 'B') push('anchor', i, i + length);
+			else push('escape', i, i + length);
+			i += length;
+			continue;
+		}
+
+		if (c === '[') {
+			let j = i + 1;
+			if (source[j] === '^') j++;
+			while (j < source.length && source[j] !== ']') j += source[j] === '\\' ? 2 : 1;
+			if (j >= source.length) {
+				fail('regex.unterminatedClass', i);
+				push('class', i, source.length);
+				break;
+			}
+			const rangeError = findClassRangeError(source, i, j + 1);
+			if (rangeError !== -1) fail('regex.rangeOutOfOrder', rangeError);
+			push('class', i, j + 1);
+			i = j + 1;
+			continue;
+		}
+
+		if (c === '(') {
+			if (source[i + 1] === '?') {
+				const known = GROUP_PREFIXES.find(g => source.startsWith(g.prefix, i));
+				const named = source.substring(i).match(/^\(\?<([^>=!]*)>/);
+				if (known) {
+					openGroups.push(push('group-open', i, i + known.prefix.length, { groupKind: known.kind }));
+					i += known.prefix.length;
+				} else if (named) {
+					const name = named[1];
+					if (!/^[A-Za-z_$][\w$]*$/.test(name)) fail('regex.invalidGroupName', i);
+					else if (groupNames.indexOf(name) !== -1) fail('regex.duplicateGroupName', i);
+					groupNames.push(name);
+					groupCount++;
+					openGroups.push(push('group-open', i, i + named[0].length, { groupKind: 'named', groupNumber: groupCount, groupName: name }));
+					i += named[0].length;
+				} else {
+					fail('regex.invalidGroup', i);
+					push('literal', i, i + 2);
+					i += 2;
+				}
+			} else {
+				groupCount++;
+				openGroups.push(push('group-open', i, i + 1, { groupKind: 'capture', groupNumber: groupCount }));
+				i++;
+			}
+			continue;
+		}
+
+		if (c === ')') {
+			const group = openGroups.pop();
+			if (!group) {
+				fail('regex.unmatchedParen', i);
+				push('literal', i, i + 1);
+			} else {
+				push('group-close', i, i + 1, { groupKind: group.groupKind, groupNumber: group.groupNumber, groupName: group.groupName });
+			}
+			i++;
+			continue;
+		}
+
+		const quantifier = source.substring(i).match(/^(?:[*+?]|\{(\d+)(?:,(\d*))?\})\??/);
+		if (quantifier) {
+			const last = tokens[tokens.length - 1];
+			if (!last || last.type === 'group-open' || last.type === 'alternation' || last.type === 'quantifier' || last.type === 'anchor') {
+				fail('regex.nothingToRepeat', i);
+			} else if (quantifier[2] && parseInt(quantifier[2], 10) < parseInt(quantifier[1], 10)) {
+				fail('regex.quantifierOutOfOrder', i);
+			}
+			push('quantifier', i, i + quantifier[0].length);
+			i += quantifier[0].length;
+			continue;
+		}
+
+		if (c === '|') push('alternation', i, i + 1);
+		else if (c === '.') push('dot', i, i + 1);
+		else if (c === '^' || c === '$') push('anchor', i, i + 1);
+		else push('literal', i, i + 1);
+		i++;
+	}
+
+	if (openGroups.length > 0) fail('regex.unterminatedGroup', openGroups[openGroups.length - 1].from);
+
+	return { tokens, groupCount, groupNames, error };
+};
@@ -0,0 +1,297 @@
+import { t } from './i18n';
+import { SkippedMatch, TextMatch } from './matching';
+import { RfrPluginSettings } from './settings';
+
+// Part of the note the find/replace modal searches in when nothing is selected
+export type SectionScope = 'document' | 'section' | 'sectionOnly' | 'block' | 'heading' | 'markers';
+
+export type ScopeRestriction = 'all' | 'headings' | 'frontmatter' | 'property';
+
+// Markdown-aware scope of the find/replace modal
+export interface MarkdownScopeOptions {
+	skipCodeBlocks: boolean;
+	skipInlineCode: boolean;
+	skipFrontmatter: boolean;
+	skipLinkTargets: boolean;
+	skipHtmlComments: boolean;
+	restrictTo: ScopeRestriction;
+	// Frontmatter property replaced in when restrictTo is 'property'
+	property: string;
+}
+
+export interface ExcludedRange {
+	from: number;
+	to: number;
+	reason: string;
+}
+
+// Returns the marker of a code fence line (``` or ~~~), or null for any other line
+export const getFenceMarker = (line: string): string | null => {
+	const fenceMatch = line.match(/^\s*(```+|~~~+)/);
+	if (!fenceMatch) return null;
+	return fenceMatch[1].startsWith('`') ? '```' : '~~~';
+};
+
+const findFencedCodeRanges = (text: string): { from: number, to: number }[] => {
+	const ranges: { from: number, to: number }[] = [];
+	const lines = text.split('\n');
+	let fenceMarker = '';
+	let fenceStart = -1;
+	let offset = 0;
+	lines.forEach(line => {
+		const lineEnd = offset + line.length;
+		const marker = getFenceMarker(line);
+		if (marker) {
+			if (fenceStart === -1) {
+				fenceStart = offset;
+				fenceMarker = marker;
+			} else if (marker === fenceMarker) {
+				ranges.push({ from: fenceStart, to: lineEnd });
+				fenceStart = -1;
+			}
+		}
+		offset = lineEnd + 1;
+	});
+	// An unclosed fence runs until the end of the note
+	if (fenceStart !== -1) ranges.push({ from: fenceStart, to: text.length });
+	return ranges;
+};
+
+export const findFrontmatterRange = (text: string): { from: number, to: number } | null => {
+	const match = text.match(/^---\r?\n(?:[\s\S]*?\r?\n)?(?:---|\.\.\.)[ \t]*(?=\r?\n|$)/);
+	return match ? { from: 0, to: match[0].length } : null;
+};
+
+const findRegexRanges = (text: string, regex: RegExp, group = 0): { from: number, to: number }[] => {
+	const ranges: { from: number, to: number }[] = [];
+	let match;
+	while ((match = regex.exec(text)) !== null) {
+		if (match[0].length === 0) {
+			regex.lastIndex++;
+			continue;
+		}
+		// The range of a group is found by its prefix groups, all groups before it must be consecutive
+		let from = match.index;
+		for (let i = 1; i < group; i++) from += (match[i] ?? '').length;
+		const value = match[group] ?? '';
+		if (value.length > 0) ranges.push({ from, to: from + value.length });
+	}
+	return ranges;
+};
+
+const rangesOverlap = (a: { from: number, to: number }, b: { from: number, to: number }): boolean => {
+	if (a.from === a.to) return a.from >= b.from && a.from < b.to;
+	return a.from < b.to && b.from < a.to;
+};
+
+// Lists the parts of the text that have to be left alone, each with the reason why
+export const computeExcludedRanges = (text: string, options: MarkdownScopeOptions): ExcludedRange[] => {
+	const excluded: ExcludedRange[] = [];
+	const fences = findFencedCodeRanges(text);
+	const frontmatter = findFrontmatterRange(text);
+	const outsideFences = (r: { from: number, to: number }) => !fences.some(f => rangesOverlap(r, f));
+	const add = (ranges: { from: number, to: number }[], reason: string) => {
+		ranges.forEach(r => excluded.push({ from: r.from, to: r.to, reason }));
+	};
+
+	if (options.skipFrontmatter && frontmatter) add([frontmatter], t('reason.frontmatter'));
+	if (options.skipCodeBlocks) add(fences, t('reason.codeBlock'));
+	if (options.skipInlineCode) {
+		add(findRegexRanges(text, /(`+)(?:[^`]|[^`][\s\S]*?[^`])\1(?!`)/g).filter(outsideFences), t('reason.inlineCode'));
+	}
+	if (options.skipLinkTargets) {
+		add([
+			...findRegexRanges(text, /(!?\[\[)([^\]|\n]*)(?=(?:\|[^\]\n]*)?\]\])/g, 2),
+			...findRegexRanges(text, /(\]\()(<[^>\n]*>|[^)\s]*)/g, 2),
+			...findRegexRanges(text, /\b(?:https?|ftp|file|obsidian):\/\/[^\s)\]>]+/g)
+		].filter(outsideFences), t('reason.linkTarget'));
+	}
+	if (options.skipHtmlComments) {
+		add(findRegexRanges(text, /<!--[\s\S]*?-->/g).filter(outsideFences), t('reason.htmlComment'));
+	}
+
+	if (options.restrictTo !== 'all') {
+		let allowed: { from: number, to: number }[];
+		let reason: string;
+		if (options.restrictTo === 'headings') {
+			allowed = findRegexRanges(text, /^ {0,3}#{1,6}(?:[ \t].*)?$/gm).filter(outsideFences);
+			reason = t('reason.outsideHeadings');
+		} else if (options.restrictTo === 'property') {
+			const propertyRange = findPropertyRange(text, options.property);
+			allowed = propertyRange ? [propertyRange] : [];
+			reason = t('reason.outsideProperty', { property: options.property });
+		} else {
+			allowed = frontmatter ? [frontmatter] : [];
+			reason = t('reason.outsideFrontmatter');
+		}
+		let last = 0;
+		allowed.forEach(r => {
+			if (r.from > last) excluded.push({ from: last, to: r.from, reason });
+			last = r.to;
+		});
+		if (last < text.length) excluded.push({ from: last, to: text.length, reason });
+	}
+
+	return excluded.sort((a, b) => a.from - b.from);
+};
+
+// Splits matches into the ones to replace and the ones touching an excluded range
+export const applyMatchScope = (matches: TextMatch[], excludedRanges: ExcludedRange[]): { matches: TextMatch[], skipped: SkippedMatch[] } => {
+	if (excludedRanges.length === 0) return { matches, skipped: [] };
+	const kept: TextMatch[] = [];
+	const skipped: SkippedMatch[] = [];
+	matches.forEach(match => {
+		const range = excludedRanges.find(r => rangesOverlap(match, r));
+		if (range) skipped.push({ match, reason: range.reason }); else kept.push(match);
+	});
+	return { matches: kept, skipped };
+};
+
+// Finds the lines of a top-level frontmatter property: its key line and the indented or list lines below it.
+// Property names are compared ignoring case, as Obsidian does.
+export const findPropertyRange = (text: string, property: string): { from: number, to: number } | null => {
+	const frontmatter = findFrontmatterRange(text);
+	const name = property.trim().toLowerCase();
+	if (!frontmatter || !name) return null;
+
+	const lines = text.substring(0, frontmatter.to).split('\n');
+	let offset = lines[0].length + 1;
+	let from = -1;
+	let to = -1;
+	// The first and last lines are the --- markers
+	for (let i = 1; i < lines.length - 1; i++) {
+		const line = lines[i].replace(/\r$/, '');
+		const lineEnd = offset + line.length;
+		if (from === -1) {
+			const keyMatch = line.match(/^(?:"([^"]*)"|'([^']*)'|([^\s#'"-][^:]*?))[ \t]*:(?:[ \t]|$)/);
+			const key = keyMatch ? (keyMatch[1] ?? keyMatch[2] ?? keyMatch[3]) : null;
+			if (key !== null && key.toLowerCase() === name) {
+				from = offset;
+				to = lineEnd;
+			}
+		} else if (/^[ \t]/.test(line) || /^-(?:[ \t]|$)/.test(line)) {
+			if (line.trim()) to = lineEnd;
+		} else if (line.trim()) {
+			break;
+		}
+		offset += lines[i].length + 1;
+	}
+	return from === -1 ? null : { from, to };
+};
+
+// A heading of the note, outside code blocks and frontmatter
+export interface HeadingInfo {
+	level: number;
+	text: string;
+	// Start and end of the heading line
+	from: number;
+	to: number;
+}
+
+// A part of the note searched in instead of the whole note
+export interface SectionRange {
+	from: number;
+	to: number;
+	// Heading the section belongs to, if any
+	heading?: string;
+}
+
+export const findHeadings = (text: string): HeadingInfo[] => {
+	const fences = findFencedCodeRanges(text);
+	const frontmatter = findFrontmatterRange(text);
+	const headings: HeadingInfo[] = [];
+	// As in CommonMark the hashes are followed by a space or the end of the line, so ####### is no heading
+	const regex = /^ {0,3}(#{1,6})(?=[ \t]|$)(?:[ \t]+(.*?))?[ \t#]*$/gm;
+	let match;
+	while ((match = regex.exec(text)) !== null) {
+		const line = { from: match.index, to: match.index + match[0].length };
+		if (match[0].length === 0) regex.lastIndex++;
+		if (fences.some(f => rangesOverlap(line, f)) || (frontmatter && line.from < frontmatter.to)) continue;
+		headings.push({ level: match[1].length, text: (match[2] ?? '').trim(), from: line.from, to: line.to });
+	}
+	return headings;
+};
+
+// The text under a heading, up to the next heading of the same or a higher level,
+// or up to the next heading of any level without subheadings
+const getHeadingSection = (text: string, headings: HeadingInfo[], index: number, includeSubheadings: boolean): SectionRange => {
+	const heading = headings[index];
+	const next = headings.slice(index + 1).find(h => !includeSubheadings || h.level <= heading.level);
+	const from = Math.min(heading.to + 1, text.length);
+	return { from, to: next ? Math.max(next.from - 1, from) : text.length, heading: heading.text };
+};
+
+// The paragraph or list around the offset: the lines up to the nearest blank lines or headings
+export const findBlockRange = (text: string, offset: number): SectionRange | null => {
+	const lines = text.split('\n');
+	const starts: number[] = [];
+	let lineStart = 0;
+	lines.forEach(line => {
+		starts.push(lineStart);
+		lineStart += line.length + 1;
+	});
+	let cursorLine = 0;
+	while (cursorLine + 1 < lines.length && starts[cursorLine + 1] <= offset) cursorLine++;
+
+	const isBlank = (i: number) => lines[i].trim() === '';
+	const isHeading = (i: number) => /^ {0,3}#{1,6}(?:[ \t]|$)/.test(lines[i]);
+	if (isBlank(cursorLine)) return null;
+
+	let first = cursorLine;
+	let last = cursorLine;
+	if (!isHeading(cursorLine)) {
+		while (first > 0 && !isBlank(first - 1) && !isHeading(first - 1)) first--;
+		while (last + 1 < lines.length && !isBlank(last + 1) && !isHeading(last + 1)) last++;
+	}
+	return { from: starts[first], to: starts[last] + lines[last].length };
+};
+
+// The lines between a start and an end marker line, preferring the pair around the offset
+export const findMarkerRange = (text: string, startMarker: string, endMarker: string, offset: number): SectionRange | null => {
+	const start = startMarker.trim();
+	const end = endMarker.trim();
+	if (!start || !end) return null;
+
+	const pairs: SectionRange[] = [];
+	let openedAt = -1;
+	let lineStart = 0;
+	text.split('\n').forEach(line => {
+		const lineEnd = lineStart + line.length;
+		if (openedAt === -1 && line.trim() === start) {
+			openedAt = Math.min(lineEnd + 1, text.length);
+		} else if (openedAt !== -1 && line.trim() === end) {
+			pairs.push({ from: openedAt, to: Math.max(lineStart - 1, openedAt) });
+			openedAt = -1;
+		}
+		lineStart = lineEnd + 1;
+	});
+	return pairs.find(p => p.from <= offset && offset <= p.to) ?? pairs[0] ?? null;
+};
+
+// Finds the part of the note the section scope stands for, null if it is not in the note.
+// The current section and block are the ones around the given offset, usually the cursor.
+export const findSectionScopeRange = (text: string, settings: RfrPluginSettings, offset: number): SectionRange | null => {
+	const scope = settings.sectionScope;
+	if (scope === 'document') return { from: 0, to: text.length };
+	if (scope === 'block') return findBlockRange(text, offset);
+	if (scope === 'markers') return findMarkerRange(text, settings.sectionStartMarker, settings.sectionEndMarker, offset);
+
+	const headings = findHeadings(text);
+	let index = -1;
+	if (scope === 'heading') {
+		index = headings.findIndex(h => h.text === settings.sectionHeading);
+	} else {
+		headings.forEach((h, i) => {
+			if (h.from <= offset) index = i;
+		});
+	}
+	return index === -1 ? null : getHeadingSection(text, headings, index, scope !== 'sectionOnly');
+};
+
+// Names the searched part of the note in the preview and the notices
+export const getSectionScopeLabel = (range: SectionRange | null, settings: RfrPluginSettings): string => {
+	if (range && range.heading !== undefined) return t('scope.section', { heading: range.heading });
+	if (settings.sectionScope === 'block') return t('scope.block');
+	if (settings.sectionScope === 'markers') return t('scope.markers');
+	return t('scope.document');
+};
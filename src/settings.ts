@@ -0,0 +1,136 @@
+import { LanguageSetting } from './i18n';
+import { MarkdownScopeOptions, SectionScope } from './scope';
+
+export interface RegexPattern {
+	id: string;
+	name: string;
+	findText: string;
+	replaceText: string;
+	useRegEx: boolean;
+	caseInsensitive: boolean;
+	isPinned: boolean;
+	lastUsed: number;
+	useCount: number;
+	description: string;
+	tags: string[];
+	tests: PatternTestCase[];
+}
+
+// A sample input with the text the pattern should turn it into
+export interface PatternTestCase {
+	input: string;
+	expected: string;
+}
+
+// An ordered chain of saved patterns, run as a single edit
+export interface RegexRecipe {
+	id: string;
+	name: string;
+	patternIds: string[];
+	fixFormatting: boolean;
+}
+
+// A user defined formatting rule, applied to each line outside code blocks
+export interface CustomFormatRule {
+	id: string;
+	name: string;
+	findText: string;
+	replaceText: string;
+	enabled: boolean;
+}
+
+export type BulletMarker = '-' | '*' | '+';
+
+export type VaultScopeMode = 'folder' | 'glob' | 'tag';
+
+export type RenameTarget = 'notes' | 'files' | 'folders';
+
+export interface RfrPluginSettings {
+	findText: string;
+	replaceText: string;
+	useRegEx: boolean;
+	selOnly: boolean;
+	caseInsensitive: boolean;
+	multilineMatch: boolean;
+	processLineBreak: boolean;
+	processTab: boolean;
+	prefillFind: boolean;
+	savedPatterns: RegexPattern[];
+	maxHistorySize: number;
+	showPreview: boolean;
+	previewLimit: number;
+	// Seconds a regex search may run in the match worker
+	matchTimeout: number;
+	confirmLargeReplace: boolean;
+	largeReplaceThreshold: number;
+	vaultScopeMode: VaultScopeMode;
+	vaultScopeValue: string;
+	// Frontmatter property the vault search replaces in, empty for the whole note
+	vaultProperty: string;
+	renameTarget: RenameTarget;
+	renameFolder: string;
+	recipes: RegexRecipe[];
+	pinnedPatternCommands: boolean;
+	markdownScope: MarkdownScopeOptions;
+	sectionScope: SectionScope;
+	// Heading searched under when sectionScope is 'heading'
+	sectionHeading: string;
+	sectionStartMarker: string;
+	sectionEndMarker: string;
+	// Capture group "Select all matches" selects, 0 for the whole match
+	selectGroup: number;
+	formatRules: { [ruleId: string]: boolean };
+	bulletMarker: BulletMarker;
+	emphasisMarker: '*' | '_';
+	strongMarker: '**' | '__';
+	customFormatRules: CustomFormatRule[];
+	language: LanguageSetting;
+	librarySyncPath: string;
+}
+
+export const DEFAULT_SETTINGS: RfrPluginSettings = {
+	findText: '',
+	replaceText: '',
+	useRegEx: true,
+	selOnly: false,
+	caseInsensitive: true,
+	multilineMatch: true,
+	processLineBreak: false,
+	processTab: false,
+	prefillFind: false,
+	savedPatterns: [],
+	maxHistorySize: 10,
+	showPreview: true,
+	previewLimit: 5,
+	matchTimeout: 2,
+	confirmLargeReplace: true,
+	largeReplaceThreshold: 20,
+	vaultScopeMode: 'folder',
+	vaultScopeValue: '',
+	vaultProperty: '',
+	renameTarget: 'notes',
+	renameFolder: '',
+	recipes: [],
+	pinnedPatternCommands: true,
+	markdownScope: {
+		skipCodeBlocks: false,
+		skipInlineCode: false,
+		skipFrontmatter: false,
+		skipLinkTargets: false,
+		skipHtmlComments: false,
+		restrictTo: 'all',
+		property: ''
+	},
+	sectionScope: 'document',
+	sectionHeading: '',
+	sectionStartMarker: '',
+	sectionEndMarker: '',
+	selectGroup: 0,
+	formatRules: {},
+	bulletMarker: '-',
+	emphasisMarker: '*',
+	strongMarker: '**',
+	customFormatRules: [],
+	language: 'auto',
+	librarySyncPath: ''
+}
@@ -0,0 +1,4 @@
+// The parts of the Obsidian API that the text helpers need when they run outside of the app
+import * as moment from 'moment';
+
+export { moment };
@@ -0,0 +1,92 @@
+import { FORMAT_RULES, checkMarkdownFormatting, fixMarkdownFormatting } from '../src/format';
+import { DEFAULT_SETTINGS } from '../src/settings';
+
+const settings = (overrides: Partial<typeof DEFAULT_SETTINGS>) => ({ ...DEFAULT_SETTINGS, ...overrides });
+const enableOnly = (...ids: string[]) => settings({
+	formatRules: FORMAT_RULES.reduce((rules, rule) => ({ ...rules, [rule.id]: ids.includes(rule.id) }), {})
+});
+const fix = (lines: string[], ruleSettings = DEFAULT_SETTINGS) => fixMarkdownFormatting(lines.join('\n'), ruleSettings).text.split('\n');
+
+describe('FORMAT_RULES', () => {
+	it('have unique ids', () => {
+		const ids = FORMAT_RULES.map(rule => rule.id);
+		expect(new Set(ids).size).toBe(ids.length);
+	});
+
+	it('fix headings, list markers and trailing whitespace by default', () => {
+		expect(fix([
+			'##Heading',
+			'## ## Twice',
+			'######## Deep',
+			'-item',
+			'1.first',
+			'text   ',
+			'break  '
+		])).toEqual([
+			'## Heading',
+			'## Twice',
+			'###### Deep',
+			'- item',
+			'1. first',
+			'text',
+			'break  '
+		]);
+	});
+
+	it('leave the frontmatter and code blocks alone', () => {
+		const lines = ['---', 'title:  x  ', '---', '```', '#comment', '-x', '```'];
+		expect(fix(lines)).toEqual(lines);
+	});
+
+	it('add blank lines around headings', () => {
+		expect(fix(['text', '# One', '## Two', 'more'], enableOnly('heading_blank_lines')))
+			.toEqual(['text', '', '# One', '', '## Two', '', 'more']);
+	});
+
+	it('use the chosen bullet marker, but keep thematic breaks', () => {
+		expect(fix(['* a', '+ b', '* * *'], settings({ ...enableOnly('bullet_marker'), bulletMarker: '-' })))
+			.toEqual(['- a', '- b', '* * *']);
+	});
+
+	it('renumber ordered lists, each nested list on its own', () => {
+		expect(fix(['1. a', '1. b', '   5. x', '   9. y', '7. c', '', 'text', '3. d'], enableOnly('ordered_list_renumber')))
+			.toEqual(['1. a', '2. b', '   5. x', '   6. y', '3. c', '', 'text', '3. d']);
+	});
+
+	it('collapse runs of blank lines', () => {
+		expect(fix(['a', '', '', '', 'b'], enableOnly('collapse_blank_lines'))).toEqual(['a', '', 'b']);
+	});
+
+	it('use the chosen emphasis marker outside of inline code', () => {
+		expect(fix(['_a_ and `_b_`'], settings({ ...enableOnly('emphasis_style'), emphasisMarker: '*' })))
+			.toEqual(['*a* and `_b_`']);
+	});
+
+	it('change strong and emphasis markers, but not underscores inside words or escaped ones', () => {
+		expect(fix(['__a__ (*b*) snake_case_name \\_c_'], settings({ ...enableOnly('emphasis_style'), emphasisMarker: '_', strongMarker: '__' })))
+			.toEqual(['__a__ (_b_) snake_case_name \\_c_']);
+		expect(fix(['**a** and __b__'], settings({ ...enableOnly('emphasis_style'), strongMarker: '__' })))
+			.toEqual(['__a__ and __b__']);
+	});
+
+	it('run the enabled custom rules', () => {
+		const custom = { id: 'arrow', name: 'Arrows', findText: '->', replaceText: '→', enabled: true };
+		expect(fix(['a -> b'], settings({ ...enableOnly(), customFormatRules: [custom] }))).toEqual(['a → b']);
+		expect(fix(['a -> b'], settings({ ...enableOnly(), customFormatRules: [{ ...custom, enabled: false }] }))).toEqual(['a -> b']);
+	});
+});
+
+describe('fixMarkdownFormatting', () => {
+	it('counts the edits of each rule', () => {
+		const { stats } = fixMarkdownFormatting('#A\n#B\n-c', DEFAULT_SETTINGS);
+		expect(stats.map(stat => [stat.key, stat.count])).toEqual([['heading_space_normalize', 2], ['list_bullet_space', 1]]);
+	});
+});
+
+describe('checkMarkdownFormatting', () => {
+	it('lists the issues by line without changing the text', () => {
+		const issues = checkMarkdownFormatting('-c\n#A', DEFAULT_SETTINGS);
+		expect(issues.map(issue => [issue.rule.id, issue.edit.fromLine, issue.before, issue.edit.lines]))
+			.toEqual([['list_bullet_space', 0, ['-c'], ['- c']], ['heading_space_normalize', 1, ['#A'], ['# A']]]);
+	});
+});
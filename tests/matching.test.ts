@@ -0,0 +1,127 @@
+import {
+	MatchWorker,
+	expandReplacement,
+	findMatchesInWorker,
+	generateMatchPreviews,
+	offsetTextMatches,
+	replaceInText,
+	replaceMatches
+} from '../src/matching';
+
+// Without a Worker global the match worker searches right away, on the calling thread
+const worker = new MatchWorker();
+const context = { fileName: 'Meeting notes', now: new Date(2024, 0, 15, 9, 30).getTime() };
+
+const findMatches = (text: string, searchString: string, flags = 'gm') =>
+	findMatchesInWorker(worker, text, searchString, true, flags, 1000, true);
+
+const replace = async (text: string, searchString: string, replaceString: string, flags = 'gm') =>
+	replaceMatches(text, await findMatches(text, searchString, flags), replaceString, true, context);
+
+describe('expandReplacement', () => {
+	it('follows the rules of String.prototype.replace', async () => {
+		const text = 'John Smith, Jane Doe';
+		const searchString = '(?<first>\\w+) (\\w+)';
+		for (const template of ['$2, $1', '$<first>', '[$&]', '$$1', '$3', '($`|$\')']) {
+			expect(await replace(text, searchString, template)).toBe(text.replace(new RegExp(searchString, 'gm'), template));
+		}
+	});
+
+	it('reads $nn as a two-digit group only if there are that many groups', async () => {
+		expect(await replace('abc', '(a)(b)(c)', '$11')).toBe('a1');
+		expect(await replace('abcdefghijk', '(a)(b)(c)(d)(e)(f)(g)(h)(i)(j)(k)', '$11')).toBe('k');
+	});
+
+	it('changes the case with \\U, \\L, \\E, \\u and \\l', async () => {
+		expect(await replace('hello world', '(\\w+) (\\w+)', '\\U$1\\E $2')).toBe('HELLO world');
+		expect(await replace('HELLO WORLD', '(\\w+) (\\w+)', '\\L$1 \\u$2')).toBe('hello World');
+		expect(await replace('HELLO WORLD', '(\\w+) (\\w+)', '\\L$1\\E $2')).toBe('hello WORLD');
+		expect(await replace('Hello', '\\w+', '\\l$&')).toBe('hello');
+		expect(await replace('ab', '(a)(b)', '\\u\\L$1$2')).toBe('Ab');
+	});
+
+	it('numbers the matches with ${n} and pads ${n:03}', async () => {
+		expect(await replace('a b c', '\\w', '${n}.$&')).toBe('1.a 2.b 3.c');
+		expect(await replace('a b', '\\w', '${n:03}')).toBe('001 002');
+		expect(await replace('a b', '\\w', '${n:3}')).toBe('  1   2');
+	});
+
+	it('fills in ${file} and ${date}', async () => {
+		expect(await replace('x', 'x', '${file}')).toBe('Meeting notes');
+		expect(await replace('x', 'x', '${date}')).toBe('2024-01-15');
+		expect(await replace('x', 'x', '${date:DD.MM.YYYY HH:mm}')).toBe('15.01.2024 09:30');
+	});
+
+	it('keeps unknown variables and a lone $ as they are', async () => {
+		expect(await replace('x', 'x', '${unknown}')).toBe('${unknown}');
+		expect(await replace('x', 'x', 'cost: $')).toBe('cost: $');
+		expect(await replace('x', 'x', '${n')).toBe('${n');
+	});
+
+	it('limits $` and $\' to the searched part of the text', async () => {
+		const text = 'one [two] three';
+		const from = text.indexOf('two');
+		const to = from + 'two'.length;
+		const matches = offsetTextMatches(text, await findMatches(text.substring(from, to), 'w'), { from, to });
+		expect(matches[0].from).toBe(from + 1);
+		expect(expandReplacement('<$`|$\'>', matches[0], text, 1, context)).toBe('<t|o>');
+	});
+});
+
+describe('replaceMatches', () => {
+	it('replaces only the given matches and numbers them in order', async () => {
+		const text = 'a a a a';
+		const matches = (await findMatches(text, 'a')).filter((_m, index) => index !== 1);
+		expect(replaceMatches(text, matches, '${n}', true, context)).toBe('1 a 2 3');
+	});
+
+	it('inserts a plain replacement literally', async () => {
+		const matches = await findMatchesInWorker(worker, 'a.b.c', '.', false, 'g', 1000);
+		expect(replaceMatches('a.b.c', matches, '$&', false, context)).toBe('a$&b$&c');
+	});
+});
+
+describe('replaceInText', () => {
+	it('returns the text and the number of replacements', async () => {
+		expect(await replaceInText(worker, 'cat hat', '(\\w)at', '$1og', true, 'g', 1000, context)).toEqual({ text: 'cog hog', count: 2 });
+		expect(await replaceInText(worker, 'cat', 'dog', 'x', true, 'g', 1000, context)).toEqual({ text: 'cat', count: 0 });
+	});
+
+	it('fails on an invalid pattern', async () => {
+		await expect(replaceInText(worker, 'text', '(', 'x', true, 'g', 1000, context)).rejects.toThrow();
+	});
+});
+
+describe('generateMatchPreviews', () => {
+	it('shows the line of each match before and after the replacement', async () => {
+		const text = 'first line\nsecond line';
+		const previews = generateMatchPreviews(text, await findMatches(text, 'second'), '2nd', true, 10, context);
+		expect(previews).toHaveLength(1);
+		expect(previews[0].lineNumber).toBe(2);
+		expect(previews[0].lineContent).toBe('second line');
+		expect(previews[0].lineAfterReplace).toBe('2nd line');
+	});
+
+	it('numbers ${n} like the replacement when matches are unchecked', async () => {
+		const text = 'a a a';
+		const matches = await findMatches(text, 'a');
+		const excluded = matches[0];
+		const previews = generateMatchPreviews(text, matches, '${n}', true, 10, context, [], m => m === excluded);
+		expect(previews.map(p => p.replacementText)).toEqual(['1', '1', '2']);
+
+		const included = matches.filter(m => m !== excluded);
+		expect(replaceMatches(text, included, '${n}', true, context)).toBe('a 1 2');
+	});
+
+	it('lists skipped matches in document order without replacing them', async () => {
+		const text = 'a b a';
+		const matches = await findMatches(text, 'a');
+		const previews = generateMatchPreviews(text, [matches[1]], 'x', true, 10, context, [{ match: matches[0], reason: 'code' }]);
+		expect(previews.map(p => [p.from, p.replacementText, p.skippedReason])).toEqual([[0, 'a', 'code'], [4, 'x', undefined]]);
+	});
+
+	it('stops at the limit', async () => {
+		const text = 'a a a a';
+		expect(generateMatchPreviews(text, await findMatches(text, 'a'), 'b', true, 2, context)).toHaveLength(2);
+	});
+});
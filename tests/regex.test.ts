@@ -0,0 +1,33 @@
+import { t } from '../src/i18n';
+import { analyzeRegex } from '../src/regex';
+
+describe('analyzeRegex', () => {
+	it('counts the capture groups, but not the other kinds of groups', () => {
+		const analysis = analyzeRegex('(a)(?:b)(?<word>c)(?=d)\\1');
+		expect(analysis.error).toBeNull();
+		expect(analysis.groupCount).toBe(2);
+		expect(analysis.groupNames).toEqual(['word']);
+		expect(analysis.tokens.filter(token => token.type === 'backreference').map(token => token.text)).toEqual(['\\1']);
+	});
+
+	it('ignores parentheses that are escaped or inside a class', () => {
+		const analysis = analyzeRegex('\\(a\\)[()]');
+		expect(analysis.error).toBeNull();
+		expect(analysis.groupCount).toBe(0);
+	});
+
+	it.each([
+		['(a', 'regex.unterminatedGroup', 0],
+		['a)', 'regex.unmatchedParen', 1],
+		['a[bc', 'regex.unterminatedClass', 1],
+		['[z-a]', 'regex.rangeOutOfOrder', 1],
+		['*a', 'regex.nothingToRepeat', 0],
+		['a{3,1}', 'regex.quantifierOutOfOrder', 1],
+		['a\\', 'regex.trailingBackslash', 1],
+		['(?<1a>x)', 'regex.invalidGroupName', 0],
+		['(?<a>x)(?<a>y)', 'regex.duplicateGroupName', 7],
+		['(?x)', 'regex.invalidGroup', 0]
+	] as const)('reports %s', (source, key, position) => {
+		expect(analyzeRegex(source).error).toEqual({ message: t(key), position });
+	});
+});
@@ -0,0 +1,174 @@
+import { t } from '../src/i18n';
+import { MatchWorker, findMatchesInWorker } from '../src/matching';
+import {
+	applyMatchScope,
+	computeExcludedRanges,
+	findBlockRange,
+	findHeadings,
+	findMarkerRange,
+	findPropertyRange,
+	findSectionScopeRange
+} from '../src/scope';
+import { DEFAULT_SETTINGS } from '../src/settings';
+
+const scopeOptions = (overrides: Partial<typeof DEFAULT_SETTINGS.markdownScope>) => ({ ...DEFAULT_SETTINGS.markdownScope, ...overrides });
+const settings = (overrides: Partial<typeof DEFAULT_SETTINGS>) => ({ ...DEFAULT_SETTINGS, ...overrides });
+const textOf = (text: string, range: { from: number, to: number } | null) => range ? text.substring(range.from, range.to) : null;
+
+const note = [
+	'---',
+	'title: Plan',
+	'tags:',
+	'  - work',
+	'  - draft',
+	'status: open',
+	'---',
+	'# Intro',
+	'Some `code` and [[Target|alias]] here.',
+	'',
+	'```',
+	'# not a heading',
+	'```',
+	'## Details',
+	'First line',
+	'second line',
+	'',
+	'# Outro',
+	'<!-- note -->',
+	'End'
+].join('\n');
+
+describe('computeExcludedRanges', () => {
+	const excludedTexts = (overrides: Partial<typeof DEFAULT_SETTINGS.markdownScope>) =>
+		computeExcludedRanges(note, scopeOptions(overrides)).map(r => [note.substring(r.from, r.to), r.reason]);
+
+	it('excludes nothing by default', () => {
+		expect(computeExcludedRanges(note, DEFAULT_SETTINGS.markdownScope)).toEqual([]);
+	});
+
+	it('excludes the frontmatter, code, link targets and comments that are skipped', () => {
+		expect(excludedTexts({ skipFrontmatter: true })).toEqual([[note.substring(0, note.indexOf('# Intro') - 1), t('reason.frontmatter')]]);
+		expect(excludedTexts({ skipCodeBlocks: true })).toEqual([['```\n# not a heading\n```', t('reason.codeBlock')]]);
+		expect(excludedTexts({ skipInlineCode: true })).toEqual([['`code`', t('reason.inlineCode')]]);
+		expect(excludedTexts({ skipLinkTargets: true })).toEqual([['Target', t('reason.linkTarget')]]);
+		expect(excludedTexts({ skipHtmlComments: true })).toEqual([['<!-- note -->', t('reason.htmlComment')]]);
+	});
+
+	it('excludes everything but the headings', () => {
+		const allowed = computeExcludedRanges(note, scopeOptions({ restrictTo: 'headings' }))
+			.reduce((text, r) => text.substring(0, r.from) + '\0'.repeat(r.to - r.from) + text.substring(r.to), note)
+			.split('\0').filter(part => part);
+		expect(allowed).toEqual(['# Intro', '## Details', '# Outro']);
+	});
+
+	it('excludes everything but the lines of a property', () => {
+		const excluded = computeExcludedRanges(note, scopeOptions({ restrictTo: 'property', property: 'Tags' }));
+		expect(excluded).toHaveLength(2);
+		expect(note.substring(excluded[0].to, excluded[1].from)).toBe('tags:\n  - work\n  - draft');
+	});
+});
+
+describe('applyMatchScope', () => {
+	it('skips the matches touching an excluded range', async () => {
+		const text = 'a `a` a';
+		const matches = await findMatchesInWorker(new MatchWorker(), text, 'a', false, 'g', 1000);
+		const { matches: kept, skipped } = applyMatchScope(matches, computeExcludedRanges(text, scopeOptions({ skipInlineCode: true })));
+		expect(kept.map(m => m.from)).toEqual([0, 6]);
+		expect(skipped.map(s => [s.match.from, s.reason])).toEqual([[3, t('reason.inlineCode')]]);
+	});
+});
+
+describe('findPropertyRange', () => {
+	it('finds the key line and its list items, ignoring the case of the name', () => {
+		expect(textOf(note, findPropertyRange(note, 'TAGS'))).toBe('tags:\n  - work\n  - draft');
+		expect(textOf(note, findPropertyRange(note, 'status'))).toBe('status: open');
+	});
+
+	it('finds quoted keys', () => {
+		const text = '---\n"my key": 1\nother: 2\n---\n';
+		expect(textOf(text, findPropertyRange(text, 'my key'))).toBe('"my key": 1');
+	});
+
+	it('returns null for a missing property or frontmatter', () => {
+		expect(findPropertyRange(note, 'missing')).toBeNull();
+		expect(findPropertyRange('title: Plan', 'title')).toBeNull();
+		expect(findPropertyRange(note, ' ')).toBeNull();
+	});
+});
+
+describe('findHeadings', () => {
+	it('lists the headings outside of code blocks and the frontmatter', () => {
+		expect(findHeadings(note).map(h => [h.level, h.text])).toEqual([[1, 'Intro'], [2, 'Details'], [1, 'Outro']]);
+	});
+
+	it('drops the closing hashes of a heading', () => {
+		expect(findHeadings('## Title ##').map(h => h.text)).toEqual(['Title']);
+	});
+
+	it('needs a space or the end of the line after at most six hashes', () => {
+		expect(findHeadings('#######\n####### Seven\n#tag\n######\n###### Six').map(h => [h.level, h.text])).toEqual([[6, ''], [6, 'Six']]);
+	});
+});
+
+describe('findSectionScopeRange', () => {
+	const inDetails = note.indexOf('First line');
+
+	it('searches the whole note in document scope', () => {
+		expect(findSectionScopeRange(note, settings({ sectionScope: 'document' }), 0)).toEqual({ from: 0, to: note.length });
+	});
+
+	it('takes the section at the offset with its subsections', () => {
+		const intro = note.indexOf('Some');
+		const range = findSectionScopeRange(note, settings({ sectionScope: 'section' }), intro);
+		expect(range.heading).toBe('Intro');
+		expect(textOf(note, range)).toBe(note.substring(intro, note.indexOf('# Outro') - 1));
+	});
+
+	it('takes the section at the offset without its subsections', () => {
+		const intro = note.indexOf('Some');
+		expect(textOf(note, findSectionScopeRange(note, settings({ sectionScope: 'sectionOnly' }), intro)))
+			.toBe(note.substring(intro, note.indexOf('## Details') - 1));
+	});
+
+	it('takes the section of the chosen heading', () => {
+		const range = findSectionScopeRange(note, settings({ sectionScope: 'heading', sectionHeading: 'Details' }), 0);
+		expect(textOf(note, range)).toBe('First line\nsecond line\n');
+		expect(findSectionScopeRange(note, settings({ sectionScope: 'heading', sectionHeading: 'Missing' }), 0)).toBeNull();
+	});
+
+	it('returns null before the first heading', () => {
+		expect(findSectionScopeRange(note, settings({ sectionScope: 'section' }), 0)).toBeNull();
+	});
+
+	it('takes the block at the offset', () => {
+		expect(textOf(note, findSectionScopeRange(note, settings({ sectionScope: 'block' }), inDetails))).toBe('First line\nsecond line');
+	});
+});
+
+describe('findBlockRange', () => {
+	const text = 'one\ntwo\n\nthree\n# Heading\nfour';
+
+	it('runs up to the nearest blank lines and headings', () => {
+		expect(textOf(text, findBlockRange(text, 5))).toBe('one\ntwo');
+		expect(textOf(text, findBlockRange(text, text.indexOf('three')))).toBe('three');
+		expect(textOf(text, findBlockRange(text, text.indexOf('Heading')))).toBe('# Heading');
+	});
+
+	it('returns null on a blank line', () => {
+		expect(findBlockRange(text, text.indexOf('\n\n') + 1)).toBeNull();
+	});
+});
+
+describe('findMarkerRange', () => {
+	const text = 'a\n<!-- start -->\nb\n<!-- end -->\nc\n<!-- start -->\nd\n<!-- end -->';
+
+	it('prefers the pair of markers around the offset', () => {
+		expect(textOf(text, findMarkerRange(text, '<!-- start -->', '<!-- end -->', text.indexOf('\nd\n') + 1))).toBe('d');
+		expect(textOf(text, findMarkerRange(text, '<!-- start -->', '<!-- end -->', 0))).toBe('b');
+	});
+
+	it('returns null without both markers', () => {
+		expect(findMarkerRange(text, '<!-- start -->', '', 0)).toBeNull();
+		expect(findMarkerRange(text, '%% from', '%% to', 0)).toBeNull();
+	});
+});